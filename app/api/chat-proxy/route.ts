@@ -1,69 +1,168 @@
 import { NextRequest } from 'next/server';
+import { APIError, ChatMessage, GenerationParameters, JsonSchema, TokenUsage, ToolCall, ToolDefinition, readProviderStream, resolveProvider } from '../../lib/providers';
+import { resolveGenerationParameters } from '../../lib/generationParameters';
+import { circuitBreaker } from '../../lib/circuitBreaker';
+import { findModel } from '../../lib/modelCatalog';
+import { modelCatalogStore } from '../../lib/modelCatalogStore';
+import { rateLimiter, rateLimitKeys } from '../../lib/rateLimiter';
+import { requestRegistry } from '../../lib/requestRegistry';
+import { StreamBuffer, streamBuffers } from '../../lib/streamBuffer';
+import { MAX_TOOL_STEPS, findUnknownTools, runToolCall } from '../../lib/tools';
+import { appendText, contentText, countImages } from '../../lib/messageContent';
+import { completionBudget, planContext, type ContextPlan, type ContextStrategy } from '../../lib/contextPlanner';
+import { estimateMessagesTokens } from '../../lib/tokenEstimate';
+import { responseCache, responseCacheKey, type CacheEntry, type CachedEvent } from '../../lib/responseCache';
+import { CHAT_PROTOCOL_HEADER, CHAT_PROTOCOL_VERSION, type ChatEventPayloads, type ModelEventPayload, type ModelEventType } from '../../lib/chatEvents';
+import { formatSSE } from '../../lib/sseParser';
+import { MAX_CONTINUATIONS, continuationContext } from '../../lib/continuation';
+import { resolveApiKey, type ResolvedApiKey } from '../../lib/apiKeys';
 
 interface ChatRequest {
   prompt?: string; // For backward compatibility
-  messages?: { role: string; content: string }[]; // New conversation history format
+  messages?: ChatMessage[]; // New conversation history format
   models: string[];
+  parameters?: Record<string, GenerationParameters>; // Per-model overrides keyed by model id
+  systemPrompts?: Record<string, string>; // Per-model system prompts replacing the shared one
+  tools?: ToolDefinition[]; // OpenAI-style definitions; only built-in tools can be run
+  responseSchema?: JsonSchema; // Structured output mode: every model is asked for JSON matching this
+  contextStrategy?: ContextStrategy; // How older turns are fitted into small context windows
+  bypassCache?: boolean; // Skip cached answers; fresh ones are still stored
+  maxContinuations?: number; // Continuation rounds for answers cut off by max_tokens; 0 or absent turns it off
+  requestId?: string; // Chosen by the client so it can stop the request before the first event arrives
+  servingModels?: Record<string, string>; // Model to call for a column instead of its own, e.g. the fallback whose answer is being continued
+}
+
+interface ProviderCallOptions {
+  parameters: GenerationParameters;
+  tools?: ToolDefinition[];
+  responseSchema?: JsonSchema;
+  signal?: AbortSignal; // Aborted when the user stops this model
+  openRouterKey: ResolvedApiKey | null; // The user's own key or the server's
+  onRateLimitWait?: (waitMs: number) => void; // Called when the shared rate limiter queues the call
+}
+
+// Usage arrives in pieces (finish reason, then counts); later values win, gaps don't erase
+function mergeUsage(current: TokenUsage, update: TokenUsage): TokenUsage {
+  const defined = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined));
+  return { ...current, ...defined };
+}
+
+// Totals across the steps of a tool loop; the last step's finish reason wins
+function addUsage(total: TokenUsage, step: TokenUsage): TokenUsage {
+  const sum = (a?: number, b?: number) => (a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0));
+  return mergeUsage(total, {
+    promptTokens: sum(total.promptTokens, step.promptTokens),
+    completionTokens: sum(total.completionTokens, step.completionTokens),
+    reasoningTokens: sum(total.reasoningTokens, step.reasoningTokens),
+    totalTokens: sum(total.totalTokens, step.totalTokens),
+    finishReason: step.finishReason
+  });
+}
+
+// Failures a fallback model might not share; anything else is the request's own problem
+function fallbackReason(error: unknown): string | null {
+  const apiError = error as APIError;
+  if (apiError?.timedOut) return 'timed out';
+  if (apiError?.status === 404) return 'was not found';
+  if (apiError?.status === 429) return 'was rate limited';
+  return null;
 }
 
 // Rate limiting helper
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// Enhanced error types for better error handling
-interface APIError extends Error {
-  status?: number;
-  retryable?: boolean;
+// Like delay, but rejects with the abort reason as soon as `signal` fires
+const abortableDelay = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal.aborted) return reject(signal.reason);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  };
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+// A model that sends nothing for this long mid-stream is given up on; what it
+// streamed so far is kept as a partial answer
+const STALL_TIMEOUT_MS = Number(process.env.CHAT_PROXY_STALL_TIMEOUT_MS) || 30000;
+
+// Items of `stream` until it ends or none arrives for `idleMs`, in which case
+// `onIdle` runs (and should abort the source) and iteration stops
+async function* withIdleTimeout<T>(stream: AsyncIterable<T>, idleMs: number, onIdle: () => void): AsyncGenerator<T> {
+  const iterator = stream[Symbol.asyncIterator]();
+  for (;;) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const next = iterator.next();
+    const idle = new Promise<'idle'>(resolve => {
+      timer = setTimeout(() => resolve('idle'), idleMs);
+    });
+    const result = await Promise.race([next, idle]).finally(() => clearTimeout(timer));
+    if (result === 'idle') {
+      next.catch(() => {}); // Rejects once the source is aborted; nobody is waiting for it anymore
+      onIdle();
+      return;
+    }
+    if (result.done) return;
+    yield result.value;
+  }
 }
 
-// A single, reusable function for all OpenRouter calls with enhanced error handling and retry logic
-async function callOpenRouter(messages: { role: string; content: string }[], modelName: string, delayMs: number = 0, retryCount: number = 0): Promise<ReadableStream<Uint8Array> | null> {
+// Per-request events that are not part of the answer itself, so never cached
+const UNCACHED_EVENTS = new Set<ModelEventType>(['progress', 'error', 'context']);
+
+// Suggested reconnection delay, sent as the stream's `retry` field
+const RECONNECT_DELAY_MS = 1000;
+
+// Client-chosen request ids must look like the ones crypto.randomUUID() makes
+const REQUEST_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A single, reusable function for all provider calls with enhanced error handling and retry logic
+async function callProvider(messages: ChatMessage[], modelName: string, options: ProviderCallOptions, retryCount: number = 0): Promise<Response> {
   const maxRetries = 3; // Increased retry attempts
-  
-  // Add delay to prevent rate limiting
-  if (delayMs > 0) {
-    await delay(delayMs);
-  }
 
   try {
-    // Check for API key before making request
-    if (!process.env.OPENROUTER_API_KEY) {
-      const error = new Error('API key is not configured. Please check your environment variables.') as APIError;
-      error.retryable = false;
-      throw error;
+    options.signal?.throwIfAborted();
+
+    const { adapter, model, rateLimitKey, apiKeyLabel } = resolveProvider(modelName, options.openRouterKey);
+
+    // Every attempt, retries included, spends from the shared budget
+    if (rateLimitKey) {
+      await rateLimiter.acquire(rateLimitKeys(rateLimitKey, modelName), options.signal, options.onRateLimitWait);
     }
 
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
 
-    const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${process.env.OPENROUTER_API_KEY}`,
-        "Content-Type": "application/json",
-        "HTTP-Referer": process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000",
-        "X-Title": "Multi-Model Chat Comparison"
-      },
-      body: JSON.stringify({
-        "model": modelName,
-        "messages": messages,
-        "stream": true,
-        "max_tokens": 4000, // Reasonable limit
-        "temperature": 0.7
-      }),
-      signal: controller.signal
+    // The stop signal keeps applying to the body after the timeout is cleared
+    const response = await adapter.request({
+      model,
+      messages,
+      parameters: options.parameters,
+      tools: options.tools,
+      responseSchema: options.responseSchema,
+      signal: options.signal ? AbortSignal.any([controller.signal, options.signal]) : controller.signal
     });
 
     clearTimeout(timeoutId);
 
     if (!response.ok) {
       const errorText = await response.text().catch(() => 'Unknown error');
+
+      if (response.status === 429) {
+        circuitBreaker.recordFailure(modelName, 'rate-limit');
+      } else if (response.status === 404) {
+        circuitBreaker.recordFailure(modelName, 'not-found');
+      }
       
-      // Handle rate limiting with exponential backoff retry
-      if (response.status === 429 && retryCount < maxRetries) {
+      // Handle rate limiting with exponential backoff retry, unless that just opened the circuit
+      if (response.status === 429 && retryCount < maxRetries && circuitBreaker.getHealth(modelName).status === 'available') {
         const retryDelay = Math.pow(2, retryCount) * 2000 + Math.random() * 1000; // Add jitter
         console.log(`Rate limit hit for ${modelName}, retrying in ${Math.round(retryDelay)}ms (attempt ${retryCount + 1}/${maxRetries + 1})`);
-        await delay(retryDelay);
-        return callOpenRouter(messages, modelName, 0, retryCount + 1);
+        await (options.signal ? abortableDelay(retryDelay, options.signal) : delay(retryDelay));
+        return callProvider(messages, modelName, options, retryCount + 1);
       }
       
       // Create detailed error messages based on status codes
@@ -76,7 +175,9 @@ async function callOpenRouter(messages: { role: string; content: string }[], mod
           error.retryable = false;
           break;
         case 401:
-          error.message = `Authentication failed. Please check your API key configuration.`;
+          error.message = apiKeyLabel
+            ? `Authentication failed for ${modelName}: ${apiKeyLabel} was rejected.`
+            : `Authentication failed for ${modelName}. Please check your API key configuration.`;
           error.retryable = false;
           break;
         case 403:
@@ -107,8 +208,14 @@ async function callOpenRouter(messages: { role: string; content: string }[], mod
       throw error;
     }
 
-    return response.body;
+    circuitBreaker.recordSuccess(modelName);
+    return response;
   } catch (error) {
+    // A stopped model is not an error and must not be retried
+    if (options.signal?.aborted) {
+      throw error;
+    }
+
     // Handle different types of errors
     if (error instanceof Error) {
       const apiError = error as APIError;
@@ -117,10 +224,12 @@ async function callOpenRouter(messages: { role: string; content: string }[], mod
       if (error.name === 'AbortError') {
         apiError.message = `Request timeout for ${modelName}. The model is taking too long to respond.`;
         apiError.retryable = true;
+        apiError.timedOut = true;
+        circuitBreaker.recordFailure(modelName, 'timeout');
       }
       
       // Handle network errors with retry
-      if (retryCount < maxRetries && (
+      if (retryCount < maxRetries && circuitBreaker.getHealth(modelName).status === 'available' && (
         error instanceof TypeError || 
         error.message.includes('fetch') ||
         error.message.includes('network') ||
@@ -129,8 +238,8 @@ async function callOpenRouter(messages: { role: string; content: string }[], mod
       )) {
         const retryDelay = Math.pow(2, retryCount) * 1000 + Math.random() * 500; // 1s, 2s, 4s with jitter
         console.log(`Network/retryable error for ${modelName}, retrying in ${Math.round(retryDelay)}ms (attempt ${retryCount + 1}/${maxRetries + 1}): ${error.message}`);
-        await delay(retryDelay);
-        return callOpenRouter(messages, modelName, 0, retryCount + 1);
+        await (options.signal ? abortableDelay(retryDelay, options.signal) : delay(retryDelay));
+        return callProvider(messages, modelName, options, retryCount + 1);
       }
       
       // If not retryable or max retries reached, enhance the error message
@@ -143,12 +252,169 @@ async function callOpenRouter(messages: { role: string; content: string }[], mod
   }
 }
 
+// A lost connection (client gone, failed write, stale) may just be a network
+// blip, so models keep generating long enough for the client's first
+// reconnection attempts (1s, 2s, 4s backoff); after that their upstream
+// requests are aborted
+const RESUME_WINDOW_MS = 10000;
+
+// Serve one SSE connection for a request. Buffered events carry their sequence
+// id; heartbeats are per connection and have none, so they never move the
+// client's Last-Event-ID. A client that is done with the request (tab closed,
+// new chat) says so through /api/chat-proxy/stop, which cuts the models off
+// right away; a connection that merely drops gets the resume window.
+function createEventStreamResponse(
+  requestId: string,
+  buffer: StreamBuffer,
+  lastEventId: number,
+  greeting: Partial<ChatEventPayloads['heartbeat']>,
+  signal: AbortSignal
+): Response {
+  let unsubscribe: (() => void) | null = null;
+  let heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  let connectionActive = true;
+
+  const onRequestAbort = () => onClientDisconnect('request aborted');
+
+  const cleanup = () => {
+    connectionActive = false;
+    signal.removeEventListener('abort', onRequestAbort);
+    unsubscribe?.();
+    unsubscribe = null;
+    if (heartbeatInterval) {
+      clearInterval(heartbeatInterval);
+      heartbeatInterval = null;
+    }
+  };
+
+  // Abort the models if nobody comes back for the request in time
+  const scheduleAbandonCheck = () => {
+    if (buffer.isCompleted()) return;
+    setTimeout(() => {
+      if (!buffer.isCompleted() && buffer.subscriberCount === 0) {
+        const aborted = requestRegistry.abort(requestId, undefined, 'disconnected');
+        if (aborted.length > 0) {
+          console.warn(`No client resumed request ${requestId}, aborting:`, aborted);
+        }
+      }
+    }, RESUME_WINDOW_MS);
+  };
+
+  const onClientDisconnect = (cause: string) => {
+    if (!connectionActive) return; // Already closed by the server
+    cleanup();
+    if (buffer.isCompleted() || buffer.subscriberCount > 0) return;
+    console.warn(`Client disconnected from request ${requestId} (${cause}), waiting ${RESUME_WINDOW_MS / 1000}s for it to resume`);
+    scheduleAbandonCheck();
+  };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const encoder = new TextEncoder();
+      let lastActivity = Date.now();
+
+      if (signal.aborted) {
+        onRequestAbort();
+        return;
+      }
+      signal.addEventListener('abort', onRequestAbort, { once: true });
+
+      // Function to send SSE message with error handling
+      const sendSSEMessage = (event: string, data: string, id?: number, retry?: number) => {
+        try {
+          if (!connectionActive) return;
+          controller.enqueue(encoder.encode(formatSSE({ event, data, id, retry })));
+          if (id !== undefined) {
+            lastActivity = Date.now();
+          }
+        } catch (error) {
+          console.error('Error sending SSE message:', error);
+          cleanup();
+          scheduleAbandonCheck();
+        }
+      };
+
+      const close = () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      // Tell this connection the request is over before closing it, so the
+      // client knows the end wasn't a drop; every connection gets its own
+      const finish = () => {
+        const done: ChatEventPayloads['heartbeat'] = { timestamp: Date.now(), completed: true };
+        sendSSEMessage('heartbeat', JSON.stringify(done));
+        close();
+      };
+
+      // Send initial heartbeat
+      const hello: ChatEventPayloads['heartbeat'] = {
+        timestamp: Date.now(),
+        protocolVersion: CHAT_PROTOCOL_VERSION,
+        requestId,
+        ...greeting
+      };
+      sendSSEMessage('heartbeat', JSON.stringify(hello), undefined, RECONNECT_DELAY_MS);
+
+      // Replay what the client has not seen yet, then follow live events
+      for (const entry of buffer.since(lastEventId)) {
+        sendSSEMessage(entry.event, entry.data, entry.id);
+      }
+
+      if (buffer.isCompleted()) {
+        finish();
+        return;
+      }
+
+      unsubscribe = buffer.subscribe(
+        entry => sendSSEMessage(entry.event, entry.data, entry.id),
+        finish
+      );
+
+      // Setup heartbeat interval with connection monitoring
+      heartbeatInterval = setInterval(() => {
+        // Check for stale connections
+        const timeSinceActivity = Date.now() - lastActivity;
+        if (timeSinceActivity > 120000) { // 2 minutes
+          console.warn('Connection appears stale, closing');
+          close();
+          scheduleAbandonCheck();
+          return;
+        }
+        
+        const heartbeat: ChatEventPayloads['heartbeat'] = {
+          timestamp: Date.now(),
+          active: true,
+          timeSinceActivity
+        };
+        sendSSEMessage('heartbeat', JSON.stringify(heartbeat));
+      }, 10000); // Every 10 seconds
+    },
+    cancel() {
+      onClientDisconnect('stream cancelled');
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Connection': 'keep-alive',
+      'Cache-Control': 'no-cache, no-transform',
+      [CHAT_PROTOCOL_HEADER]: String(CHAT_PROTOCOL_VERSION),
+    },
+  });
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const { prompt, messages, models }: ChatRequest = await request.json();
+    const { prompt, messages, models, parameters, systemPrompts, tools, responseSchema, contextStrategy, bypassCache, maxContinuations, requestId: clientRequestId, servingModels }: ChatRequest = await request.json();
 
     // Support both legacy prompt format and new messages format
-    let conversationMessages: { role: string; content: string }[];
+    let conversationMessages: ChatMessage[];
     
     if (messages && Array.isArray(messages)) {
       conversationMessages = messages;
@@ -163,239 +429,546 @@ export async function POST(request: NextRequest) {
       return new Response('Invalid request body: models array is required', { status: 400 });
     }
 
-    // Create a ReadableStream for SSE
-    const stream = new ReadableStream({
-      start(controller) {
-        const encoder = new TextEncoder();
-        let connectionActive = true;
-        let lastActivity = Date.now();
-
-        // Function to send SSE message with error handling
-        const sendSSEMessage = (event: string, data: string) => {
-          try {
-            if (!connectionActive) return;
-            const message = `event: ${event}\ndata: ${data}\n\n`;
-            console.log('Sending SSE:', event, data);
-            controller.enqueue(encoder.encode(message));
-          } catch (error) {
-            console.error('Error sending SSE message:', error);
-            connectionActive = false;
-          }
-        };
+    if (tools !== undefined) {
+      if (!Array.isArray(tools)) {
+        return new Response('Invalid request body: tools must be an array', { status: 400 });
+      }
+      const unknownTools = findUnknownTools(tools);
+      if (unknownTools.length > 0) {
+        return new Response(`Unknown tool(s): ${unknownTools.join(', ')}`, { status: 400 });
+      }
+    }
+    const requestTools = tools?.length ? tools : undefined;
 
-        // Send initial heartbeat
-        sendSSEMessage('heartbeat', JSON.stringify({ 
-          timestamp: Date.now(),
-          models: models.length 
-        }));
+    if (responseSchema !== undefined && (!responseSchema || typeof responseSchema !== 'object' || Array.isArray(responseSchema))) {
+      return new Response('Invalid request body: responseSchema must be a JSON Schema object', { status: 400 });
+    }
+
+    if (contextStrategy !== undefined && contextStrategy !== 'truncate' && contextStrategy !== 'summarize') {
+      return new Response("Invalid request body: contextStrategy must be 'truncate' or 'summarize'", { status: 400 });
+    }
+
+    if (maxContinuations !== undefined && (!Number.isInteger(maxContinuations) || maxContinuations < 0 || maxContinuations > MAX_CONTINUATIONS)) {
+      return new Response(`Invalid request body: maxContinuations must be an integer from 0 to ${MAX_CONTINUATIONS}`, { status: 400 });
+    }
+
+    if (clientRequestId !== undefined && (typeof clientRequestId !== 'string' || !REQUEST_ID_PATTERN.test(clientRequestId))) {
+      return new Response('Invalid request body: requestId must be a UUID', { status: 400 });
+    }
+    if (clientRequestId && streamBuffers.get(clientRequestId)) {
+      return new Response(`Request ${clientRequestId} already exists; resume it with GET instead`, { status: 409 });
+    }
+
+    // Read from the headers only, so the key never reaches a log or cache key
+    const openRouterKey = resolveApiKey('openrouter', request.headers);
+
+    // Also warms the catalog cache resolveProvider reads backends from
+    const catalog = await modelCatalogStore.get();
+    const unknownModels = models.filter(modelId => !findModel(catalog.models, modelId));
+    if (unknownModels.length > 0) {
+      return new Response(`Unknown model(s): ${unknownModels.join(', ')}`, { status: 400 });
+    }
+
+    if (servingModels !== undefined) {
+      if (!servingModels || typeof servingModels !== 'object' || Array.isArray(servingModels)) {
+        return new Response('Invalid request body: servingModels must map model ids to model ids', { status: 400 });
+      }
+      const invalid = Object.entries(servingModels).filter(([column, model]) =>
+        !models.includes(column) || typeof model !== 'string' || !findModel(catalog.models, model)
+      );
+      if (invalid.length > 0) {
+        return new Response(`Invalid servingModels entries: ${invalid.map(([column]) => column).join(', ')}`, { status: 400 });
+      }
+    }
 
-        // Setup heartbeat interval with connection monitoring
-        const heartbeatInterval = setInterval(() => {
-          if (!connectionActive) {
-            clearInterval(heartbeatInterval);
+    // Models that can't take the schema as `response_format` get it as an instruction instead
+    const supportsStructuredOutput = (modelName: string): boolean =>
+      Boolean(findModel(catalog.models, modelName)?.capabilities?.structuredOutput);
+
+    const withSchemaInstruction = (messages: ChatMessage[]): ChatMessage[] => {
+      const lastUserIndex = messages.map(msg => msg.role).lastIndexOf('user');
+      if (!responseSchema || lastUserIndex === -1) return messages;
+      const instruction = 'Respond only with a single JSON value that validates against this JSON Schema. ' +
+        `Do not add any text before or after it.\n\n${JSON.stringify(responseSchema, null, 2)}`;
+      return messages.map((msg, index) =>
+        index === lastUserIndex ? { ...msg, content: appendText(msg.content, `\n\n${instruction}`) } : msg
+      );
+    };
+
+    // Text-only models never receive image parts; the client shows them a notice instead
+    const withoutImages = (messages: ChatMessage[], modelName: string): ChatMessage[] => {
+      if (findModel(catalog.models, modelName)?.capabilities?.vision) return messages;
+      const imageCount = messages.reduce((total, msg) => total + countImages(msg.content), 0);
+      if (imageCount === 0) return messages;
+      console.log(`Dropping ${imageCount} image(s) for ${modelName}, which has no vision support`);
+      return messages.map(msg => (typeof msg.content === 'string' ? msg : { ...msg, content: contentText(msg.content) }));
+    };
+
+    const contextLengthOf = (modelName: string): number => findModel(catalog.models, modelName)?.contextLength ?? 4096;
+
+    // A per-model system prompt replaces the shared one sent in messages. The
+    // result is then fitted into the context window of `servingModel`, which
+    // is a fallback's when one has taken over.
+    const getModelMessages = (modelName: string, servingModel: string = modelName): { messages: ChatMessage[]; plan: ContextPlan } => {
+      const systemPrompt = systemPrompts?.[modelName]?.trim();
+      const withSystemPrompt = withoutImages(systemPrompt
+        ? [{ role: 'system', content: systemPrompt }, ...conversationMessages.filter(msg => msg.role !== 'system')]
+        : conversationMessages, modelName);
+      const messages = supportsStructuredOutput(modelName) ? withSystemPrompt : withSchemaInstruction(withSystemPrompt);
+      return planContext(messages, contextLengthOf(servingModel), {
+        maxTokens: resolveGenerationParameters(parameters?.[modelName]).max_tokens,
+        strategy: contextStrategy ?? 'summarize'
+      });
+    };
+
+    // The model's parameters with max_tokens cut down so that `messages` and the
+    // completion fit the serving model's window together
+    const fittedParameters = (modelName: string, servingModel: string, messages: ChatMessage[]): GenerationParameters => {
+      const requested = resolveGenerationParameters(parameters?.[modelName]);
+      return {
+        ...requested,
+        max_tokens: completionBudget(contextLengthOf(servingModel), estimateMessagesTokens(messages), requested.max_tokens)
+      };
+    };
+
+    // Lets /api/chat-proxy/stop cancel individual models of this request
+    const requestId = clientRequestId ?? crypto.randomUUID();
+
+    // Models write into a per-request buffer; connections replay it, which lets
+    // a dropped client resume through GET with Last-Event-ID
+    const buffer = streamBuffers.create(requestId);
+
+    // Only model events are buffered; heartbeats belong to a single connection
+    const emit = <T extends ModelEventType>(type: T, payload: ChatEventPayloads[T]) => {
+      const data = JSON.stringify(payload);
+      console.log('Sending SSE:', type, data);
+      buffer.push(type, data);
+    };
+
+    // Function to make the provider call for one model with enhanced error handling
+    const makeAIRequest = async (modelName: string): Promise<void> => {
+      const stopController = requestRegistry.register(requestId, modelName);
+      let chunkCount = 0;
+      let startTime = Date.now();
+      let isTrialRequest = false;
+      let usage: TokenUsage = {};
+      let maxTokens: number | undefined; // Of the latest call; fitting can set it below the requested value
+
+      // Events about this model; while recording for the cache they are kept with their timing
+      let recording: CachedEvent[] | null = null;
+      let lastRecordedAt = 0;
+      const emitModel = <T extends ModelEventType>(type: T, payload: ModelEventPayload<T>) => {
+        emit(type, { modelId: modelName, ...payload } as ChatEventPayloads[T]);
+        if (recording && !UNCACHED_EVENTS.has(type)) {
+          const now = Date.now();
+          recording.push({ type, payload, delay: now - lastRecordedAt });
+          lastRecordedAt = now;
+        }
+      };
+
+      let cacheKey: string | null = null;
+      const saveToCache = () => {
+        if (!cacheKey || !recording) return;
+        const entry: CacheEntry = { version: 2, model: modelName, createdAt: Date.now(), events: recording };
+        responseCache.set(cacheKey, entry).catch(error => console.error(`Failed to cache the response of ${modelName}:`, error));
+      };
+
+      // The column stays `modelName`; `servingModel` is whoever is actually answering,
+      // starting with `initialModel`, which the request may pin to another model
+      const initialModel = servingModels?.[modelName] ?? modelName;
+      const fallbacks = (findModel(catalog.models, modelName)?.fallbacks ?? []).filter(id => id !== initialModel);
+      let servingModel = initialModel;
+      let nextFallback = 0;
+
+      // Move on to the next fallback whose circuit isn't open; false once the chain is used up
+      const switchToFallback = (reason: string): boolean => {
+        while (nextFallback < fallbacks.length) {
+          const candidate = fallbacks[nextFallback++];
+          if (circuitBreaker.getHealth(candidate).status !== 'available') continue;
+          console.log(`Falling back from ${servingModel} to ${candidate} for ${modelName}: ${reason}`);
+          emitModel('fallback', {
+            requestedModel: modelName,
+            model: candidate,
+            reason: `${servingModel} ${reason}`,
+            timestamp: Date.now()
+          });
+          servingModel = candidate;
+          return true;
+        }
+        return false;
+      };
+
+      // Report usage once, right before the model's end event
+      const emitUsage = () => {
+        if (Object.keys(usage).length === 0) return;
+        emitModel('usage', usage);
+      };
+
+      // Fit the conversation to `model`'s window and report how
+      const planFor = (model: string): ChatMessage[] => {
+        const { messages, plan } = getModelMessages(modelName, model);
+        if (plan.strategy !== 'full') {
+          console.log(`Context for ${model}: ${plan.droppedMessages} older message(s) ${plan.strategy}, ~${plan.estimatedTokens}/${plan.contextLength} tokens`);
+        }
+        emitModel('context', plan);
+        return messages;
+      };
+
+      try {
+        const plannedMessages = planFor(initialModel);
+
+        // Identical requests replay the stored answer without touching the provider.
+        // Answers belong to the credential that paid for them, and a request
+        // without the credential it needs gets no replay: the call reports the missing key
+        const { apiKeyId } = resolveProvider(initialModel, openRouterKey);
+        if (responseCache.enabled && apiKeyId !== null) {
+          cacheKey = responseCacheKey({
+            apiKeyId,
+            model: modelName,
+            ...(initialModel !== modelName ? { servingModel: initialModel } : {}),
+            messages: plannedMessages,
+            parameters: resolveGenerationParameters(parameters?.[modelName]),
+            tools: requestTools,
+            responseSchema,
+            maxContinuations: maxContinuations || undefined
+          });
+          const cached = bypassCache ? null : await responseCache.get(cacheKey);
+          if (cached) {
+            console.log(`Replaying cached response for ${modelName}`);
+            for (const event of cached.events) {
+              await abortableDelay(event.delay, stopController.signal);
+              emit(event.type, { modelId: modelName, ...event.payload, cached: true } as ChatEventPayloads[ModelEventType]);
+            }
             return;
           }
-          
-          // Check for stale connections
-          const timeSinceActivity = Date.now() - lastActivity;
-          if (timeSinceActivity > 120000) { // 2 minutes
-            console.warn('Connection appears stale, closing');
-            connectionActive = false;
-            cleanup();
+          recording = [];
+          lastRecordedAt = Date.now();
+        }
+
+        // Fail fast while the model's circuit is open instead of queueing for a 429
+        const gate = circuitBreaker.tryAcquire(initialModel);
+        if (!gate.allowed) {
+          if (!switchToFallback(`is temporarily unavailable (${gate.reason})`)) {
+            emitModel('error', { 
+              message: `${initialModel} is temporarily unavailable: ${gate.reason}. Try again in ${Math.ceil((gate.retryAt - Date.now()) / 1000)}s.`,
+              retryable: true,
+              retryAt: gate.retryAt,
+              timestamp: new Date().toISOString()
+            });
             return;
           }
-          
-          sendSSEMessage('heartbeat', JSON.stringify({ 
-            timestamp: Date.now(),
-            active: true,
-            timeSinceActivity 
-          }));
-        }, 10000); // Every 10 seconds
-
-        // Enhanced cleanup function
-        const cleanup = () => {
-          connectionActive = false;
-          if (heartbeatInterval) {
-            clearInterval(heartbeatInterval);
+        } else {
+          isTrialRequest = gate.trial;
+        }
+
+        // Send initial progress indicator
+        emitModel('progress', { 
+          status: 'connecting',
+          message: 'Connecting to model...'
+        });
+
+        // A fallback may have a smaller window than the requested model
+        let modelMessages = servingModel === initialModel ? plannedMessages : planFor(servingModel);
+        let hasReceivedContent = false;
+        // Set while stitching an answer cut off by max_tokens: the messages it
+        // answered and what it has written so far
+        let continuation = null as { messages: ChatMessage[]; content: string } | null;
+        let continuations = 0;
+        startTime = Date.now();
+
+        // Each step streams one model turn; a turn that ends in tool calls runs
+        // them and sends the results back for another turn
+        for (let step = 1; ; step++) {
+          // Aborts the upstream read when the model goes quiet mid-stream
+          const stallController = new AbortController();
+
+          // Messages and parameters were prepared for the requested model and
+          // carry over to a fallback, refitted to its window; max_tokens is set per call
+          const callOptions: Omit<ProviderCallOptions, 'parameters'> = {
+            tools: requestTools,
+            responseSchema: responseSchema && supportsStructuredOutput(modelName) ? responseSchema : undefined,
+            signal: AbortSignal.any([stopController.signal, stallController.signal]),
+            openRouterKey,
+            onRateLimitWait: (waitMs) => {
+              emitModel('progress', { 
+                status: 'queued',
+                message: `Rate limited, starting in ${Math.ceil(waitMs / 1000)}s...`,
+                waitMs
+              });
+            }
+          };
+
+          // Before anything has streamed, an unavailable model hands over to its fallbacks
+          let response: Response;
+          for (;;) {
+            try {
+              const callParameters = fittedParameters(modelName, servingModel, modelMessages);
+              maxTokens = callParameters.max_tokens;
+              response = await callProvider(modelMessages, servingModel, { ...callOptions, parameters: callParameters });
+              break;
+            } catch (error) {
+              const reason = hasReceivedContent || stopController.signal.aborted ? null : fallbackReason(error);
+              if (!reason || !switchToFallback(reason)) throw error;
+              // Nothing has streamed, so this is still the first step's conversation
+              if (step === 1) modelMessages = planFor(servingModel);
+            }
           }
-        };
 
-        // Function to make API call to OpenRouter with enhanced error handling
-        const makeAIRequest = async (modelName: string, index: number): Promise<void> => {
-          try {
-            // Send initial progress indicator
-            sendSSEMessage(`${modelName}_progress`, JSON.stringify({ 
-              status: 'connecting',
-              message: 'Connecting to model...'
-            }));
-
-            // Stagger requests by 2 seconds - individual tests show all models work
-            const delayMs = index * 2000;
-            const responseBody = await callOpenRouter(conversationMessages, modelName, delayMs);
-            
-            if (!responseBody) {
-              throw new Error('No response stream received from the model');
+          // Send streaming progress indicator
+          emitModel('progress', { 
+            status: 'streaming',
+            message: 'Receiving response...'
+          });
+
+          let stepUsage: TokenUsage = {};
+          let stepContent = '';
+          let streamDone = false;
+          let stalled = false;
+          const toolCalls: ToolCall[] = [];
+
+          const chunks = withIdleTimeout(readProviderStream(response), STALL_TIMEOUT_MS, () => {
+            stalled = true;
+            stallController.abort('stalled');
+          });
+
+          for await (const chunk of chunks) {
+            if (stopController.signal.aborted) break;
+
+            if (chunk.type === 'usage') {
+              stepUsage = mergeUsage(stepUsage, chunk.usage);
+              continue;
             }
 
-            // Send streaming progress indicator
-            sendSSEMessage(`${modelName}_progress`, JSON.stringify({ 
-              status: 'streaming',
-              message: 'Receiving response...'
-            }));
+            chunkCount++;
 
-            const reader = responseBody.getReader();
-            const decoder = new TextDecoder();
-            let hasReceivedContent = false;
+            if (chunk.type === 'reasoning') {
+              emitModel('reasoning', {
+                token: chunk.text,
+                timestamp: Date.now()
+              });
+              continue;
+            }
 
-            try {
-              let buffer = '';
-              let chunkCount = 0;
-              const startTime = Date.now();
-              
-              while (connectionActive) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                lastActivity = Date.now();
-                chunkCount++;
-                
-                // Decode chunk with streaming support
-                const chunk = decoder.decode(value, { stream: true });
-                buffer += chunk;
-                
-                // Process complete lines with improved parsing
-                const lines = buffer.split('\n');
-                buffer = lines.pop() || '';
-
-                for (const line of lines) {
-                  if (!connectionActive) break;
-                  
-                  if (line.startsWith('data: ')) {
-                    const data = line.slice(6);
-                    if (data === '[DONE]') {
-                      const duration = Date.now() - startTime;
-                      sendSSEMessage(`${modelName}_end`, JSON.stringify({ 
-                        message: hasReceivedContent ? 'Response completed' : 'Response completed (empty)',
-                        stats: { duration, chunks: chunkCount }
-                      }));
-                      return;
-                    }
-
-                    try {
-                      const parsed = JSON.parse(data);
-                      
-                      // Handle different response formats
-                      if (parsed.choices && parsed.choices[0]?.delta?.content) {
-                        const token = parsed.choices[0].delta.content;
-                        hasReceivedContent = true;
-                        
-                        // Batch small tokens for better performance
-                        sendSSEMessage(`${modelName}_chunk`, JSON.stringify({ 
-                          token,
-                          timestamp: Date.now()
-                        }));
-                      } else if (parsed.error) {
-                        throw new Error(parsed.error.message || 'API returned an error');
-                      }
-                    } catch (parseError) {
-                      // Enhanced error handling for parsing issues
-                      if (data.trim() && !data.includes('[DONE]')) {
-                        console.warn(`Parse error for ${modelName}:`, parseError, 'Data:', data.substring(0, 100));
-                        // Don't fail the entire stream for parsing errors
-                      }
-                    }
-                  }
-                }
-                
-                // Prevent buffer from growing too large
-                if (buffer.length > 10000) {
-                  console.warn(`Large buffer detected for ${modelName}, truncating`);
-                  buffer = buffer.slice(-1000);
-                }
-              }
-
-              // If we reach here without [DONE], the stream ended unexpectedly
-              if (hasReceivedContent) {
-                sendSSEMessage(`${modelName}_end`, JSON.stringify({ 
-                  message: 'Response completed (stream ended)'
-                }));
-              } else {
-                throw new Error('Stream ended without receiving any content');
-              }
-
-            } finally {
-              reader.releaseLock();
+            if (chunk.type === 'tool_call') {
+              // Later deltas of a call only carry its index and more argument text
+              const call = toolCalls[chunk.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+              if (chunk.id) call.id = chunk.id;
+              if (chunk.name) call.function.name += chunk.name;
+              if (chunk.arguments) call.function.arguments += chunk.arguments;
+              hasReceivedContent = true;
+              emitModel('tool-call', {
+                id: call.id || `call_${step}_${chunk.index}`,
+                name: call.function.name,
+                argumentsDelta: chunk.arguments ?? '',
+                timestamp: Date.now()
+              });
+              continue;
             }
 
-          } catch (error) {
-            console.error(`Error for model ${modelName}:`, error);
-            
-            let errorMessage = 'An unexpected error occurred';
-            let retryable = false;
-            
-            if (error instanceof Error) {
-              const apiError = error as APIError;
-              errorMessage = apiError.message;
-              retryable = apiError.retryable || false;
-              
-              // Provide user-friendly error messages
-              if (errorMessage.includes('fetch')) {
-                errorMessage = 'Network connection failed. Please check your internet connection.';
-                retryable = true;
-              } else if (errorMessage.includes('timeout')) {
-                errorMessage = 'Request timed out. The model may be overloaded.';
-                retryable = true;
-              } else if (errorMessage.includes('rate limit')) {
-                errorMessage = 'Too many requests. Please wait a moment before trying again.';
-                retryable = true;
-              }
+            if (chunk.type === 'done') {
+              streamDone = true;
+              break;
             }
-            
-            sendSSEMessage(`${modelName}_error`, JSON.stringify({ 
-              message: errorMessage,
-              retryable,
-              timestamp: new Date().toISOString()
-            }));
+
+            hasReceivedContent = true;
+            stepContent += chunk.text;
+            emitModel('chunk', { 
+              token: chunk.text,
+              timestamp: Date.now()
+            });
           }
-        };
 
-        // Execute all requests with enhanced error handling and cleanup
-        Promise.allSettled(models.map((modelName, index) => makeAIRequest(modelName, index)))
-          .then((results) => {
-            console.log('All model requests completed:', results.map((result, index) => ({
-              model: models[index],
-              status: result.status,
-              value: result.status === 'fulfilled' ? 'success' : result.reason?.message
-            })));
-            
-            // Send final heartbeat before closing
-            sendSSEMessage('heartbeat', JSON.stringify({ 
-              timestamp: Date.now(),
-              completed: true,
-              results: results.length
-            }));
-            
-            cleanup();
-            controller.close();
-          })
-          .catch((error) => {
-            console.error('Stream error:', error);
-            cleanup();
-            controller.close();
-          });
-      },
-    });
+          usage = addUsage(usage, stepUsage);
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Connection': 'keep-alive',
-        'Cache-Control': 'no-cache, no-transform',
-      },
-    });
+          if (stopController.signal.aborted) {
+            throw stopController.signal.reason;
+          }
+
+          // Keep what streamed before the model went quiet; the client can ask it to continue
+          if (stalled) {
+            console.warn(`${servingModel} stalled: nothing received for ${STALL_TIMEOUT_MS}ms`);
+            circuitBreaker.recordFailure(servingModel, 'timeout');
+            if (!hasReceivedContent) {
+              const error = new Error(`${servingModel} stopped responding (nothing received for ${Math.round(STALL_TIMEOUT_MS / 1000)}s).`) as APIError;
+              error.retryable = true;
+              throw error;
+            }
+            emitUsage();
+            emitModel('end', {
+              message: `Stalled: nothing received for ${Math.round(STALL_TIMEOUT_MS / 1000)}s`,
+              truncated: 'stalled',
+              stats: { duration: Date.now() - startTime, chunks: chunkCount, steps: step },
+              maxTokens
+            });
+            return;
+          }
+
+          const calls = toolCalls.filter(Boolean).map((call, index) => ({ ...call, id: call.id || `call_${step}_${index}` }));
+          if (calls.length > 0 && requestTools && step < MAX_TOOL_STEPS) {
+            const results: ChatMessage[] = [];
+            for (const call of calls) {
+              emitModel('progress', {
+                status: 'tool',
+                message: `Running ${call.function.name || 'tool'}...`
+              });
+              const result = await runToolCall(call);
+              emitModel('tool-result', {
+                id: call.id,
+                name: call.function.name,
+                result: result.content,
+                ...(result.error ? { error: result.error } : {}),
+                timestamp: Date.now()
+              });
+              results.push({ role: 'tool', tool_call_id: call.id, content: result.content });
+            }
+
+            modelMessages = [...modelMessages, { role: 'assistant', content: stepContent, tool_calls: calls }, ...results];
+            continuation = null;
+            continue;
+          }
+
+          // Out of max_tokens: ask for the rest, which streams on into the same answer
+          const cutOff = streamDone && stepUsage.finishReason === 'length' && calls.length === 0;
+          if (cutOff && continuations < (maxContinuations ?? 0)) {
+            continuations++;
+            continuation = {
+              messages: continuation?.messages ?? modelMessages,
+              content: (continuation?.content ?? '') + stepContent
+            };
+            modelMessages = continuationContext([...continuation.messages, { role: 'assistant', content: continuation.content }]);
+            emitModel('progress', {
+              status: 'continuing',
+              message: `Hit the length limit, continuing (${continuations}/${maxContinuations})...`
+            });
+            continue;
+          }
+
+          if (streamDone) {
+            const duration = Date.now() - startTime;
+            emitUsage();
+            emitModel('end', { 
+              message: calls.length > 0
+                ? `Response completed (stopped after ${MAX_TOOL_STEPS} tool steps)`
+                : cutOff ? 'Response cut off at the length limit'
+                : hasReceivedContent ? 'Response completed' : 'Response completed (empty)',
+              ...(cutOff ? { truncated: 'length' as const } : {}),
+              stats: { duration, chunks: chunkCount, steps: step, ...(continuations > 0 ? { continuations } : {}) },
+              maxTokens
+            });
+            saveToCache();
+            return;
+          }
+
+          // If we reach here without a done marker, the stream ended unexpectedly
+          if (hasReceivedContent) {
+            emitUsage();
+            emitModel('end', { 
+              message: 'Response completed (stream ended)',
+              maxTokens
+            });
+            return;
+          }
+          throw new Error('Stream ended without receiving any content');
+        }
+
+      } catch (error) {
+        // Stopping keeps whatever was streamed so far as the final answer
+        if (stopController.signal.aborted) {
+          const disconnected = stopController.signal.reason === 'disconnected';
+          console.log(disconnected ? `Model ${modelName} cut off: the client disconnected` : `Model ${modelName} stopped by user`);
+          emitUsage();
+          emitModel('end', { 
+            message: disconnected ? 'Cut off: the client disconnected' : 'Stopped by user',
+            stopped: true,
+            stats: { duration: Date.now() - startTime, chunks: chunkCount },
+            maxTokens
+          });
+          return;
+        }
+
+        console.error(`Error for model ${modelName}:`, error);
+        
+        let errorMessage = 'An unexpected error occurred';
+        let retryable = false;
+        
+        if (error instanceof Error) {
+          const apiError = error as APIError;
+          errorMessage = apiError.message;
+          retryable = apiError.retryable || false;
+          
+          // Provide user-friendly error messages
+          if (errorMessage.includes('fetch')) {
+            errorMessage = 'Network connection failed. Please check your internet connection.';
+            retryable = true;
+          } else if (errorMessage.includes('timeout')) {
+            errorMessage = 'Request timed out. The model may be overloaded.';
+            retryable = true;
+          } else if (errorMessage.includes('rate limit')) {
+            errorMessage = 'Too many requests. Please wait a moment before trying again.';
+            retryable = true;
+          }
+        }
+        
+        emitModel('error', { 
+          message: errorMessage,
+          retryable,
+          timestamp: new Date().toISOString()
+        });
+      } finally {
+        requestRegistry.release(requestId, modelName);
+        if (isTrialRequest) {
+          circuitBreaker.releaseTrial(initialModel);
+        }
+      }
+    };
+
+    // Execute all requests with enhanced error handling and cleanup
+    Promise.allSettled(models.map(modelName => makeAIRequest(modelName)))
+      .then((results) => {
+        console.log('All model requests completed:', results.map((result, index) => ({
+          model: models[index],
+          status: result.status,
+          value: result.status === 'fulfilled' ? 'success' : result.reason?.message
+        })));
+      })
+      .catch((error) => {
+        console.error('Stream error:', error);
+      })
+      .finally(() => {
+        streamBuffers.complete(requestId);
+      });
+
+    return createEventStreamResponse(requestId, buffer, 0, { models: models.length }, request.signal);
 
   } catch (error) {
     console.error('Request error:', error);
     return new Response('Internal server error', { status: 500 });
   }
 }
+
+// Resume a dropped stream: replays every buffered event after Last-Event-ID,
+// then follows the request live until it completes
+export async function GET(request: NextRequest) {
+  const requestId = request.nextUrl.searchParams.get('requestId');
+  if (!requestId) {
+    return new Response('Invalid request: requestId is required', { status: 400 });
+  }
+
+  const buffer = streamBuffers.get(requestId);
+  if (!buffer) {
+    return new Response(`No resumable stream for request ${requestId}`, { status: 404 });
+  }
+
+  const lastEventIdHeader = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId') ?? '0';
+  const lastEventId = Number.parseInt(lastEventIdHeader, 10);
+  if (!Number.isFinite(lastEventId) || lastEventId < 0) {
+    return new Response('Invalid Last-Event-ID', { status: 400 });
+  }
+
+  if (!buffer.canResumeFrom(lastEventId)) {
+    return new Response(`Events after ${lastEventId} are no longer buffered`, { status: 410 });
+  }
+
+  console.log(`Resuming request ${requestId} from event ${lastEventId}`);
+  return createEventStreamResponse(requestId, buffer, lastEventId, { resumedFrom: lastEventId }, request.signal);
+}
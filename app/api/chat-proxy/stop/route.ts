@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestRegistry } from '../../../lib/requestRegistry';
+
+interface StopRequest {
+  requestId: string;
+  modelId?: string; // Omitted when the client abandons the whole request
+}
+
+// Cancel a single model's upstream request while the other models keep
+// streaming, or every model of a request the client is done with (new chat,
+// tab closed)
+export async function POST(request: NextRequest) {
+  try {
+    const { requestId, modelId }: StopRequest = await request.json();
+
+    if (!requestId) {
+      return NextResponse.json(
+        { error: 'Invalid request: requestId is required' },
+        { status: 400 }
+      );
+    }
+
+    const stopped = modelId
+      ? requestRegistry.abort(requestId, modelId)
+      : requestRegistry.abort(requestId, undefined, 'disconnected');
+    if (stopped.length === 0) {
+      return NextResponse.json(
+        { error: `No active stream for ${modelId ?? `request ${requestId}`}` },
+        { status: 404 }
+      );
+    }
+
+    console.log(`Stopped ${stopped.join(', ')} in request ${requestId}`);
+    return NextResponse.json({ stopped });
+
+  } catch (error) {
+    console.error('Stop request error:', error);
+    return NextResponse.json({ error: 'Failed to stop model' }, { status: 500 });
+  }
+}
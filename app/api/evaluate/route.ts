@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { SchemaValidation } from '../../lib/jsonSchema';
+import { countWords, estimateTokens } from '../../lib/tokenEstimate';
+import { describeApiKey, missingApiKeyMessage, resolveApiKey, type ResolvedApiKey } from '../../lib/apiKeys';
 
 // Request interface
 interface EvaluateRequest {
@@ -8,6 +11,7 @@ interface EvaluateRequest {
     modelId: string;
     modelName: string;
     response: string;
+    schemaValidation?: SchemaValidation; // Present in structured output mode
     timing?: {
       timeToFirstToken: number | null;
       totalResponseTime: number | null;
@@ -52,10 +56,20 @@ interface EvaluationResult {
     averageFirstTokenTime: number;
     averageTotalTime: number;
   };
+  verbosity: VerbosityMetrics[]; // Measured here, not by the evaluator model
   timestamp: number;
 }
 
+interface VerbosityMetrics {
+  modelId: string;
+  modelName: string;
+  tokens: number; // Estimated with the same tokenizer approximation as cost and context checks
+  words: number;
+  relativeLength: number; // Tokens relative to the shortest response
+}
+
 export async function POST(request: NextRequest) {
+  let apiKey: ResolvedApiKey | null = null;
   try {
     // Parse the request body
     const body: EvaluateRequest = await request.json();
@@ -69,17 +83,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check for Google API key
-    const apiKey = process.env.GOOGLE_API_KEY;
+    // The user's own key from the headers, else the server's if it shares one
+    apiKey = resolveApiKey('google', request.headers);
     if (!apiKey) {
       return NextResponse.json(
-        { error: 'Google API key not configured. Please add GOOGLE_API_KEY to your .env.local file' },
-        { status: 500 }
+        { error: missingApiKeyMessage('google') },
+        { status: 401 }
       );
     }
 
     // Initialize Google Generative AI
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const genAI = new GoogleGenerativeAI(apiKey.key);
     const model = genAI.getGenerativeModel({ 
       model: 'gemini-2.0-flash-exp',
       generationConfig: {
@@ -98,7 +112,13 @@ export async function POST(request: NextRequest) {
         if (resp.timing && resp.timing.timeToFirstToken && resp.timing.totalResponseTime) {
           timingInfo = `\n**Performance:** First token in ${resp.timing.timeToFirstToken}ms, Total time: ${resp.timing.totalResponseTime}ms`;
         }
-        return `**Model ${index + 1}: ${resp.modelName}** (${resp.modelId})${timingInfo}\n${resp.response}`;
+        let schemaInfo = '';
+        if (resp.schemaValidation) {
+          schemaInfo = resp.schemaValidation.valid
+            ? '\n**Schema:** valid'
+            : `\n**Schema:** INVALID - ${resp.schemaValidation.errors.map(error => `${error.path || '/'}: ${error.message}`).join('; ')}`;
+        }
+        return `**Model ${index + 1}: ${resp.modelName}** (${resp.modelId})${timingInfo}${schemaInfo}\n${resp.response}`;
       })
       .join('\n\n---\n\n');
 
@@ -126,6 +146,37 @@ ${timingData
   .join('\n')}
 ` : '';
 
+    // Response lengths, so the evaluator can weigh conciseness against depth
+    const measured = modelResponses.map(resp => ({
+      modelId: resp.modelId,
+      modelName: resp.modelName,
+      tokens: estimateTokens(resp.response),
+      words: countWords(resp.response)
+    }));
+    const shortest = Math.max(1, Math.min(...measured.map(metrics => metrics.tokens)));
+    const verbosity: VerbosityMetrics[] = measured.map(metrics => ({
+      ...metrics,
+      relativeLength: Number((metrics.tokens / shortest).toFixed(2))
+    }));
+
+    const verbositySummary = `
+
+**VERBOSITY METRICS (estimated tokens):**
+${verbosity.map(metrics =>
+  `- ${metrics.modelName}: ~${metrics.tokens} tokens, ${metrics.words} words (${metrics.relativeLength}x the shortest)`
+).join('\n')}
+`;
+
+    // Structured output mode: schema compliance outweighs everything else
+    const schemaResults = modelResponses.filter(resp => resp.schemaValidation);
+    const schemaSummary = schemaResults.length > 0 ? `
+
+**SCHEMA COMPLIANCE (the user required JSON matching a JSON Schema):**
+${schemaResults.map(resp =>
+  `- ${resp.modelName}: ${resp.schemaValidation!.valid ? 'valid' : `invalid (${resp.schemaValidation!.errors.length} error(s))`}`
+).join('\n')}
+` : '';
+
     // Create the evaluation prompt
     const evaluationPrompt = `You are an expert AI analyst tasked with evaluating and comparing multiple AI model responses to a user's prompt. Your analysis should be thorough, objective, and insightful.
 
@@ -133,7 +184,7 @@ ${timingData
 ${userPrompt}
 
 **Model Responses to Evaluate:**
-${formattedResponses}${timingSummary}
+${formattedResponses}${timingSummary}${verbositySummary}${schemaSummary}
 
 **Instructions:**
 Analyze each response and provide a comprehensive evaluation. You must return your analysis as a single, valid JSON object with the exact structure specified below. Do not include any text before or after the JSON.
@@ -189,11 +240,13 @@ Analyze each response and provide a comprehensive evaluation. You must return yo
 - Consider the specific context and requirements of the user's prompt
 - Look for accuracy, completeness, creativity, and practical value
 - For speed scoring: faster models get higher scores, but balance speed with quality
+- Use the verbosity metrics when judging clarity: padding and repetition should cost points, but a longer response that adds substance should not
 - Speed analysis should include both latency (first token) and total response time
 - The overall score should reflect the true quality relative to the user's needs including speed
 - Provide specific, actionable reasoning for your verdict
 - Ensure all scores are realistic and well-justified
-- Always include the speedAnalysis section with fastest/slowest models and timing averages`;
+- Always include the speedAnalysis section with fastest/slowest models and timing averages${schemaResults.length > 0 ? `
+- Schema compliance is the most important criterion: a response that fails schema validation cannot win while any response passes it, and its overall score must reflect the failure` : ''}`;
 
     // Generate the evaluation using Google Gemini
     const result = await model.generateContent(evaluationPrompt);
@@ -214,11 +267,23 @@ Analyze each response and provide a comprehensive evaluation. You must return yo
       throw new Error('Invalid response format from Gemini model');
     }
 
-    // Return the evaluation result
-    return NextResponse.json(evaluationResult);
+    // Return the evaluation result with the measured verbosity
+    return NextResponse.json({ ...evaluationResult, verbosity });
 
   } catch (error) {
     console.error('Error in evaluator API:', error);
+
+    // Gemini answers a bad key with a 400 or 403 that mentions it
+    const message = error instanceof Error ? error.message : '';
+    if (apiKey && /API[ _]key/i.test(message)) {
+      return NextResponse.json(
+        {
+          error: `Authentication failed: ${describeApiKey('google', apiKey.source)} was rejected.`,
+          details: message
+        },
+        { status: 401 }
+      );
+    }
     
     // Return a structured error response
     return NextResponse.json(
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { circuitBreaker } from '../../../lib/circuitBreaker';
+
+// Circuit breaker status for every model that has failed recently
+export async function GET() {
+  return NextResponse.json(
+    { models: circuitBreaker.snapshot(), timestamp: Date.now() },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
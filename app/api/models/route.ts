@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { modelCatalogStore } from '../../lib/modelCatalogStore';
+
+// Current model catalog; `?refresh=1` bypasses the server cache
+export async function GET(request: NextRequest) {
+  try {
+    const forceRefresh = request.nextUrl.searchParams.get('refresh') === '1';
+    const catalog = await modelCatalogStore.get(forceRefresh);
+
+    return NextResponse.json(catalog, {
+      headers: { 'Cache-Control': 'public, max-age=60' }
+    });
+
+  } catch (error) {
+    console.error('Model catalog error:', error);
+    return NextResponse.json({ error: 'Failed to load model catalog' }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAtom } from 'jotai';
+import { apiKeysAtom } from '../lib/atoms';
+import { API_KEY_PROVIDERS, type ApiKeyProvider, type ApiKeys } from '../lib/apiKeys';
+
+const PROVIDERS = Object.keys(API_KEY_PROVIDERS) as ApiKeyProvider[];
+
+// Last four characters, enough to tell keys apart without showing them
+const maskKey = (key: string): string => `••••${key.slice(-4)}`;
+
+export default function ApiKeysDialog() {
+  const [apiKeys, setApiKeys] = useAtom(apiKeysAtom);
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<ApiKeys>({});
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
+
+  const open = () => {
+    setDraft(apiKeys);
+    setIsOpen(true);
+  };
+
+  const save = () => {
+    const trimmed = Object.fromEntries(
+      PROVIDERS.map(provider => [provider, draft[provider]?.trim()]).filter(([, key]) => key)
+    ) as ApiKeys;
+    setApiKeys(trimmed);
+    setIsOpen(false);
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-2 text-xs pro-text-secondary">
+        <span className="truncate">
+          {PROVIDERS.some(provider => apiKeys[provider])
+            ? PROVIDERS.filter(provider => apiKeys[provider]).map(provider => API_KEY_PROVIDERS[provider].label).join(', ')
+            : 'Using the server’s keys'}
+        </span>
+        <button
+          onClick={open}
+          className="pro-button-secondary text-xs"
+          style={{ padding: '2px 10px', borderRadius: '6px' }}
+          aria-haspopup="dialog"
+        >
+          Edit
+        </button>
+      </div>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+          onClick={() => setIsOpen(false)}
+        >
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="api-keys-dialog-title"
+            className="pro-card w-full max-w-md p-5"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h2 id="api-keys-dialog-title" className="text-sm font-semibold pro-text-primary mb-1">
+              API Keys
+            </h2>
+            <p className="text-xs pro-text-muted mb-4">
+              Keys are stored only in this browser and sent with each request. Leave a field empty to use the server&apos;s key, if it shares one.
+            </p>
+
+            {PROVIDERS.map(provider => {
+              const { label, usedFor } = API_KEY_PROVIDERS[provider];
+              const saved = apiKeys[provider];
+              return (
+                <div key={provider} className="mb-3">
+                  <label htmlFor={`api-key-${provider}`} className="flex items-center justify-between text-xs pro-text-secondary mb-1">
+                    <span>{label} API key, for {usedFor}</span>
+                    {saved && <span className="pro-text-muted font-mono">{maskKey(saved)}</span>}
+                  </label>
+                  <input
+                    id={`api-key-${provider}`}
+                    type="password"
+                    autoComplete="off"
+                    spellCheck={false}
+                    value={draft[provider] ?? ''}
+                    onChange={(e) => setDraft({ ...draft, [provider]: e.target.value })}
+                    placeholder="Not set"
+                    className="pro-input w-full text-xs font-mono"
+                    style={{ padding: '6px 10px', borderRadius: '8px' }}
+                  />
+                </div>
+              );
+            })}
+
+            <div className="flex justify-end gap-2 mt-4">
+              <button
+                onClick={() => setDraft({})}
+                className="pro-button-secondary text-xs mr-auto"
+                style={{ padding: '4px 12px', borderRadius: '6px' }}
+              >
+                Clear all
+              </button>
+              <button
+                onClick={() => setIsOpen(false)}
+                className="pro-button-secondary text-xs"
+                style={{ padding: '4px 12px', borderRadius: '6px' }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={save}
+                className="pro-button text-xs"
+                style={{ padding: '4px 12px', borderRadius: '6px' }}
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import type { ToolCallRecord } from '../lib/atoms';
+import type { SchemaValidation } from '../lib/jsonSchema';
+import { parseModelResponse } from '../lib/responseParser';
+import MarkdownRenderer from './MarkdownRenderer';
+
+interface AssistantMessageBodyProps {
+  modelId: string;
+  content: string;
+  reasoning?: string;
+  toolCalls?: ToolCallRecord[];
+  schemaValidation?: SchemaValidation;
+  isStreaming?: boolean;
+}
+
+// Arguments as the model sent them; pretty-printed when they are valid JSON
+function formatArguments(raw: string): string {
+  try {
+    return JSON.stringify(JSON.parse(raw));
+  } catch {
+    return raw;
+  }
+}
+
+function SchemaResult({ validation }: { validation: SchemaValidation }) {
+  return (
+    <div className={`mt-3 border rounded-lg px-3 py-2 text-xs ${
+      validation.valid ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-700'
+    }`}>
+      <span className="font-semibold">
+        {validation.valid ? 'Matches schema' : `Schema check failed (${validation.errors.length} error${validation.errors.length !== 1 ? 's' : ''})`}
+      </span>
+      {!validation.valid && (
+        <ul className="mt-1 space-y-0.5 font-mono">
+          {validation.errors.map((error, index) => (
+            <li key={index} className="break-words">
+              <span className="font-semibold">{error.path || '/'}</span>: {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ToolCallItem({ call }: { call: ToolCallRecord }) {
+  const status = call.error ? 'error' : call.result !== undefined ? 'done' : 'running';
+  return (
+    <li className="border pro-border rounded-lg px-3 py-2 text-xs font-mono">
+      <div className="flex items-center justify-between gap-2">
+        <span className="pro-text-primary truncate" title={call.arguments}>
+          {call.name || 'tool'}({formatArguments(call.arguments)})
+        </span>
+        <span className={`flex-shrink-0 font-sans font-medium ${
+          status === 'error' ? 'text-red-500' : status === 'done' ? 'text-green-600' : 'pro-text-muted'
+        }`}>
+          {status === 'error' ? 'Failed' : status === 'done' ? 'Done' : 'Running...'}
+        </span>
+      </div>
+      {(call.error || call.result !== undefined) && (
+        <div className={`mt-1 break-words line-clamp-3 ${call.error ? 'text-red-500' : 'pro-text-secondary'}`} title={call.result}>
+          → {call.error || call.result}
+        </div>
+      )}
+    </li>
+  );
+}
+
+// Final answer with the model's thinking tucked into a collapsible section above it
+export default function AssistantMessageBody({ modelId, content, reasoning, toolCalls, schemaValidation, isStreaming = false }: AssistantMessageBodyProps) {
+  const [showThinking, setShowThinking] = useState(false);
+  const { thinking, finalAnswer, hasThinking } = parseModelResponse(modelId, content, reasoning);
+  const isThinking = isStreaming && !content.trim();
+
+  return (
+    <>
+      {hasThinking && thinking && (
+        <div className="mb-3 border pro-border rounded-lg">
+          <button
+            type="button"
+            onClick={() => setShowThinking(!showThinking)}
+            className="w-full flex items-center justify-between px-3 py-1.5 text-xs pro-text-muted hover:pro-text-primary"
+            aria-expanded={showThinking}
+          >
+            <span className="font-medium">{isThinking ? 'Thinking...' : 'Thinking'}</span>
+            <span>{showThinking ? 'Hide' : 'Show'}</span>
+          </button>
+          {showThinking && (
+            <div className="px-3 pb-2 text-xs pro-text-secondary border-t pro-border pt-2">
+              <MarkdownRenderer content={thinking} className="text-xs" />
+            </div>
+          )}
+        </div>
+      )}
+      {toolCalls && toolCalls.length > 0 && (
+        <ul className="mb-3 space-y-2" aria-label="Tool calls">
+          {toolCalls.map(call => <ToolCallItem key={call.id} call={call} />)}
+        </ul>
+      )}
+      <MarkdownRenderer content={finalAnswer} className="text-sm" />
+      {schemaValidation && <SchemaResult validation={schemaValidation} />}
+    </>
+  );
+}
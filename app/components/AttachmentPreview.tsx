@@ -0,0 +1,56 @@
+'use client';
+
+import type { Attachment } from '../lib/atoms';
+import { formatBytes } from '../lib/attachments';
+import { formatTokenCount } from '../lib/tokenEstimate';
+
+interface AttachmentPreviewProps {
+  attachment: Attachment;
+  size?: 'small' | 'large';
+  onRemove?: () => void;
+}
+
+// Thumbnail for an image, chip with size and token estimate for a text file
+export default function AttachmentPreview({ attachment, size = 'small', onRemove }: AttachmentPreviewProps) {
+  const removeButton = onRemove && (
+    <button
+      type="button"
+      onClick={onRemove}
+      className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-slate-700 text-white text-xs leading-none"
+      aria-label={`Remove ${attachment.name}`}
+    >
+      ×
+    </button>
+  );
+
+  if (attachment.type === 'image') {
+    return (
+      <div className="relative">
+        {/* eslint-disable-next-line @next/next/no-img-element -- data URLs can't go through next/image */}
+        <img
+          src={attachment.dataUrl}
+          alt={attachment.name}
+          title={`${attachment.name} (${formatBytes(attachment.size)})`}
+          className={`${size === 'large' ? 'w-20 h-20' : 'w-14 h-14'} object-cover rounded-lg border pro-border`}
+        />
+        {removeButton}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="relative flex items-center gap-2 px-2.5 py-1.5 rounded-lg border pro-border bg-slate-50 text-slate-700 text-xs max-w-[16rem]"
+      title={attachment.name}
+    >
+      <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6M7 4h7l5 5v11a1 1 0 01-1 1H7a1 1 0 01-1-1V5a1 1 0 011-1z" />
+      </svg>
+      <span className="truncate font-medium">{attachment.name}</span>
+      <span className="flex-shrink-0 text-slate-500">
+        {formatBytes(attachment.size)} · ~{formatTokenCount(attachment.tokens)} tok
+      </span>
+      {removeButton}
+    </div>
+  );
+}
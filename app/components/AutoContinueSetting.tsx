@@ -0,0 +1,41 @@
+'use client';
+
+import { useAtom } from 'jotai';
+import { autoContinueAtom } from '../lib/atoms';
+import { MAX_CONTINUATIONS } from '../lib/continuation';
+
+const ROUND_OPTIONS = Array.from({ length: MAX_CONTINUATIONS }, (_, index) => index + 1);
+
+export default function AutoContinueSetting() {
+  const [autoContinue, setAutoContinue] = useAtom(autoContinueAtom);
+
+  return (
+    <div className="flex items-center justify-between gap-2 text-xs pro-text-secondary">
+      <label className="flex items-center gap-2 cursor-pointer" title="Ask a model for the rest of an answer that hit max_tokens, in the same response">
+        <input
+          type="checkbox"
+          checked={autoContinue.enabled}
+          onChange={(e) => setAutoContinue({ ...autoContinue, enabled: e.target.checked })}
+          className="rounded-md border-gray-300 text-blue-600 focus:ring-blue-500 w-3.5 h-3.5"
+        />
+        <span>Auto-continue</span>
+      </label>
+      <label className="flex items-center gap-1">
+        <span className="pro-text-muted">up to</span>
+        <select
+          value={autoContinue.maxRounds}
+          onChange={(e) => setAutoContinue({ ...autoContinue, maxRounds: Number(e.target.value) })}
+          disabled={!autoContinue.enabled}
+          className="pro-input text-xs disabled:opacity-50"
+          style={{ padding: '2px 6px', borderRadius: '6px' }}
+          aria-label="Most continuation rounds per answer"
+        >
+          {ROUND_OPTIONS.map(rounds => (
+            <option key={rounds} value={rounds}>{rounds}</option>
+          ))}
+        </select>
+        <span className="pro-text-muted">rounds</span>
+      </label>
+    </div>
+  );
+}
@@ -3,14 +3,28 @@
 import { useAtom } from 'jotai';
 import { useState, useEffect, useRef } from 'react';
 import { 
-  openRouterModels, 
+  modelCatalogAtom, 
+  modelHealthAtom,
   modelsStateAtom, 
   type ModelId,
   type ExtendedModelId,
   type ModelState,
+  type TokenUsage,
   type Message,
+  type Attachment,
   addMessageToHistory,
   getConversationContext,
+  getSystemPrompt,
+  systemPromptAtom,
+  systemPromptOverridesAtom,
+  costTotalsAtom,
+  spendCapAtom,
+  enabledToolsAtom,
+  structuredOutputAtom,
+  contextStrategyAtom,
+  bypassCacheAtom,
+  autoContinueAtom,
+  apiKeysAtom,
   EVALUATOR_AGENT_ID
 } from '../lib/atoms';
 import Sidebar from './Sidebar';
@@ -18,17 +32,26 @@ import MultiResponseDisplay from './MultiResponseDisplay';
 import PromptInput from './PromptInput';
 import { ToastProvider } from '../lib/toastContext';
 import { ConnectionPool } from '../lib/connectionPool';
-import { SSEEventData } from '../lib/sseManager';
+import { SSEEventData, type ChatRequestOptions } from '../lib/sseManager';
+import { resolveGenerationParameters, type GenerationParameters } from '../lib/generationParameters';
+import { findModel, type ModelCatalog } from '../lib/modelCatalog';
+import { BUILT_IN_TOOLS, MAX_TOOL_STEPS } from '../lib/tools/definitions';
+import { parseSchema, validateResponse } from '../lib/jsonSchema';
+import { estimateFanOutCost, estimateResponseCost, findUnpricedModels, formatCost } from '../lib/cost';
+import { estimateMessagesTokens, formatTokenCount } from '../lib/tokenEstimate';
+import type { JsonSchema } from '../lib/jsonSchema';
+import { continuationContext } from '../lib/continuation';
+import { apiKeyHeaders } from '../lib/apiKeys';
 
 export default function ChatApp() {
   const [selectedModels, setSelectedModels] = useState<ModelId[]>([]);
+  const [generationParameters, setGenerationParameters] = useState<Record<string, GenerationParameters>>({}); // Per-model overrides
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [currentPrompt, setCurrentPrompt] = useState('');
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'connecting' | 'error' | null>(null);
   const [globalError, setGlobalError] = useState<string | null>(null);
   const connectionPoolRef = useRef<ConnectionPool | null>(null);
-  const currentConnectionRef = useRef<string | null>(null);
   const [evaluationRequested, setEvaluationRequested] = useState<string | null>(null); // Track current prompt being evaluated
   const evaluationTimeoutRef = useRef<NodeJS.Timeout | null>(null); // For delayed evaluation
   const lastResponseTimestamp = useRef<Map<string, number>>(new Map()); // Track last response time per model
@@ -48,6 +71,71 @@ export default function ChatApp() {
 
   // Use the single state atom
   const [modelsState, setModelsState] = useAtom(modelsStateAtom);
+  const [systemPrompt] = useAtom(systemPromptAtom);
+  const [systemPromptOverrides] = useAtom(systemPromptOverridesAtom);
+  const [modelCatalog, setModelCatalog] = useAtom(modelCatalogAtom);
+  const [costTotals, setCostTotals] = useAtom(costTotalsAtom);
+  const [spendCap] = useAtom(spendCapAtom);
+  const [enabledTools] = useAtom(enabledToolsAtom);
+  const [structuredOutput] = useAtom(structuredOutputAtom);
+  const [contextStrategy] = useAtom(contextStrategyAtom);
+  const [bypassCache] = useAtom(bypassCacheAtom);
+  const [autoContinue] = useAtom(autoContinueAtom);
+  const [apiKeys] = useAtom(apiKeysAtom);
+
+  // The SSE handler is bound once when the pool is created, so it reads prices through a ref
+  const modelCatalogRef = useRef(modelCatalog);
+  useEffect(() => {
+    modelCatalogRef.current = modelCatalog;
+  }, [modelCatalog]);
+
+  // Fallback answering each column's in-flight request, for pricing and labelling its response
+  const substitutionsRef = useRef(new Map<ModelId, ModelId>());
+
+  // Load the live model catalog; the bundled one stays in place if this fails
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch('/api/models', { signal: controller.signal })
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        return response.json() as Promise<ModelCatalog>;
+      })
+      .then(catalog => {
+        if (Array.isArray(catalog.models) && catalog.models.length > 0) {
+          setModelCatalog(catalog.models);
+          // Drop selections the catalog no longer offers
+          setSelectedModels(prev => prev.filter(modelId => findModel(catalog.models, modelId)));
+        }
+      })
+      .catch(error => {
+        if (error instanceof Error && error.name === 'AbortError') return;
+        console.warn('Failed to load model catalog, using bundled models:', error);
+      });
+
+    return () => controller.abort();
+  }, [setModelCatalog]);
+
+  // Poll circuit breaker health so the sidebar reflects failing models
+  const [, setModelHealth] = useAtom(modelHealthAtom);
+  const refreshModelHealth = useRef<() => void>(() => {});
+  useEffect(() => {
+    const refresh = () => {
+      fetch('/api/models/health')
+        .then(response => (response.ok ? response.json() : null))
+        .then(data => {
+          if (data && typeof data.models === 'object') {
+            setModelHealth(data.models);
+          }
+        })
+        .catch(error => console.warn('Failed to refresh model health:', error));
+    };
+    refreshModelHealth.current = refresh;
+
+    refresh();
+    const interval = setInterval(refresh, 15000);
+    return () => clearInterval(interval);
+  }, [setModelHealth]);
 
   // Initialize connection pool
   useEffect(() => {
@@ -76,8 +164,15 @@ export default function ChatApp() {
       }
     }, 60000); // Every minute
 
+    // A closed tab won't resume, so its models are stopped rather than left to the resume window
+    const handlePageHide = () => {
+      connectionPoolRef.current?.closeAllConnections();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+
     // Cleanup on unmount
     return () => {
+      window.removeEventListener('pagehide', handlePageHide);
       if (connectionPoolRef.current) {
         connectionPoolRef.current.closeAllConnections();
       }
@@ -164,7 +259,7 @@ export default function ChatApp() {
       const modelResponses = selectedModels
         .map(modelId => {
           const modelState = modelsState.get(modelId);
-          const model = openRouterModels.find(m => m.id === modelId);
+          const model = findModel(modelCatalog, modelId);
           
           if (!modelState || !model) return null;
           
@@ -187,8 +282,12 @@ export default function ChatApp() {
           
           return {
             modelId: model.id,
-            modelName: model.name,
+            // Name the fallback that answered so the comparison isn't attributed to the wrong model
+            modelName: latestResponse.answeredBy
+              ? `${model.name} (answered by ${findModel(modelCatalog, latestResponse.answeredBy)?.name || latestResponse.answeredBy})`
+              : model.name,
             response: latestResponse.content,
+            schemaValidation: latestResponse.schemaValidation,
             timing: {
               timeToFirstToken, // Latency (ms to first token)
               totalResponseTime, // Total time from request to completion
@@ -210,6 +309,7 @@ export default function ChatApp() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...apiKeyHeaders({ google: apiKeys.google }),
         },
         body: JSON.stringify({
           userPrompt: currentPrompt,
@@ -279,6 +379,110 @@ export default function ChatApp() {
     });
   };
 
+  const handleParametersChange = (modelId: ModelId, parameters: GenerationParameters) => {
+    setGenerationParameters(prev => ({ ...prev, [modelId]: parameters }));
+  };
+
+  const handleStopModel = async (modelId: ModelId) => {
+    if (!connectionPoolRef.current) return;
+
+    setModelsState(currentMap => {
+      const newMap = new Map(currentMap);
+      const currentState = newMap.get(modelId);
+      if (currentState?.isLoading) {
+        newMap.set(modelId, { ...currentState, progress: 'Stopping...' });
+      }
+      return newMap;
+    });
+
+    try {
+      await connectionPoolRef.current.stopModel(modelId);
+    } catch (error) {
+      console.error(`Failed to stop ${modelId}:`, error);
+    }
+  };
+
+  // Per-model parameter and system prompt overrides for a request to `models`;
+  // the shared system prompt travels in messages
+  const requestOptionsFor = (models: ModelId[], responseSchema?: JsonSchema): ChatRequestOptions => ({
+    parameters: Object.fromEntries(
+      models
+        .filter(modelId => generationParameters[modelId])
+        .map(modelId => [modelId, generationParameters[modelId]])
+    ),
+    systemPrompts: Object.fromEntries(
+      models
+        .filter(modelId => systemPromptOverrides[modelId]?.trim())
+        .map(modelId => [modelId, systemPromptOverrides[modelId].trim()])
+    ),
+    tools: enabledTools.length > 0
+      ? BUILT_IN_TOOLS.filter(tool => enabledTools.includes(tool.function.name))
+      : undefined,
+    responseSchema,
+    contextStrategy,
+    bypassCache: bypassCache || undefined,
+    maxContinuations: autoContinue.enabled ? autoContinue.maxRounds : undefined,
+    apiKeys: { openrouter: apiKeys.openrouter }
+  });
+
+  // Ask a model whose answer was cut off to carry on; its reply is appended to the partial answer
+  const handleContinueModel = async (modelId: ModelId) => {
+    const currentState = modelsState.get(modelId);
+    const lastMessage = currentState?.history[currentState.history.length - 1];
+    if (!connectionPoolRef.current || !currentState || currentState.isLoading || lastMessage?.role !== 'assistant' || !lastMessage.truncated) return;
+
+    const updateState = (partialState: Partial<ModelState>) => {
+      setModelsState(currentMap => {
+        const newMap = new Map(currentMap);
+        const state = newMap.get(modelId);
+        if (state) newMap.set(modelId, { ...state, ...partialState });
+        return newMap;
+      });
+    };
+
+    // The rest comes from whoever wrote the start, which is a fallback when one took over;
+    // events still arrive under the column's id
+    const answeredBy = lastMessage.answeredBy;
+    const substitution = answeredBy ? { model: answeredBy, reason: 'It wrote the answer being continued' } : undefined;
+    if (answeredBy) {
+      substitutionsRef.current.set(modelId, answeredBy);
+    } else {
+      substitutionsRef.current.delete(modelId);
+    }
+    updateState({
+      isLoading: true,
+      error: null,
+      progress: 'Continuing...',
+      retryable: false,
+      usage: undefined,
+      cost: undefined,
+      substitution,
+      responseEndTime: undefined
+    });
+
+    // Reuse the connection that streamed the column, once it is free
+    const columnConnection = connectionPoolRef.current.getAllConnections().find(connection => connection.models.includes(modelId));
+    try {
+      await connectionPoolRef.current.sendOnConnection(
+        columnConnection?.id ?? null,
+        continuationContext(getConversationContext(currentState.history, systemPrompt)),
+        [modelId],
+        {
+          ...requestOptionsFor([modelId], currentState.responseSchema),
+          ...(answeredBy ? { servingModels: { [modelId]: answeredBy } } : {})
+        }
+      );
+    } catch (error) {
+      console.error(`Failed to continue ${modelId}:`, error);
+      updateState({
+        isLoading: false,
+        progress: null,
+        error: error instanceof Error ? error.message : 'Failed to continue the response',
+        retryable: false
+      });
+    }
+  };
+
   // Handle SSE events from connection pool
   const handleSSEEvent = (event: SSEEventData & { connectionId?: string }) => {
     if (event.type === 'heartbeat') {
@@ -299,9 +503,69 @@ export default function ChatApp() {
       });
     };
 
+    // Apply a change to the model's in-progress assistant message, starting one if needed
+    const updateAssistantMessage = (modelId: ModelId, update: (message: Message) => Message) => {
+      setModelsState(currentMap => {
+        const newMap = new Map(currentMap);
+        const currentState = newMap.get(modelId) || { history: [], isLoading: false, error: null, progress: null, retryable: false };
+        const updatedHistory = [...currentState.history];
+        const lastMessage = updatedHistory[updatedHistory.length - 1];
+
+        if (lastMessage && lastMessage.role === 'assistant' && lastMessage.modelId === modelId) {
+          updatedHistory[updatedHistory.length - 1] = update(lastMessage);
+        } else {
+          updatedHistory.push(update({
+            id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            role: 'assistant',
+            content: '',
+            timestamp: Date.now(),
+            modelId,
+            parameters: currentState.parameters
+          }));
+        }
+
+        newMap.set(modelId, { ...currentState, history: updatedHistory });
+        return newMap;
+      });
+    };
+
     switch (type) {
+      case 'tool-call':
+        if (typeof data === 'object' && data && typeof data.id === 'string') {
+          const { id, name, argumentsDelta } = data as { id: string; name?: string; argumentsDelta?: string };
+          updateAssistantMessage(modelId, message => {
+            const toolCalls = [...(message.toolCalls || [])];
+            const index = toolCalls.findIndex(call => call.id === id);
+            if (index === -1) {
+              toolCalls.push({ id, name: name || '', arguments: argumentsDelta || '' });
+            } else {
+              toolCalls[index] = { ...toolCalls[index], name: name || toolCalls[index].name, arguments: toolCalls[index].arguments + (argumentsDelta || '') };
+            }
+            return { ...message, toolCalls };
+          });
+        }
+        break;
+
+      case 'tool-result':
+        if (typeof data === 'object' && data && typeof data.id === 'string') {
+          const { id, name, result, error } = data as { id: string; name?: string; result?: string; error?: string };
+          updateAssistantMessage(modelId, message => {
+            const toolCalls = [...(message.toolCalls || [])];
+            const index = toolCalls.findIndex(call => call.id === id);
+            const record = { ...(index === -1 ? { id, name: name || '', arguments: '' } : toolCalls[index]), result, error };
+            if (index === -1) toolCalls.push(record);
+            else toolCalls[index] = record;
+            return { ...message, toolCalls };
+          });
+        }
+        break;
+
       case 'chunk':
+      case 'reasoning':
         if (typeof data === 'object' && data && 'token' in data && typeof data.token === 'string') {
+          const token = data.token;
+          // Answer and reasoning tokens go to separate fields of the same assistant message
+          const field = type === 'chunk' ? 'content' : 'reasoning';
           const currentTime = Date.now();
           // Update last response timestamp for this model
           lastResponseTimestamp.current.set(modelId, currentTime);
@@ -317,15 +581,17 @@ export default function ChatApp() {
             
             if (lastMessage && lastMessage.role === 'assistant' && lastMessage.modelId === modelId) {
               // Append token to existing assistant message
-              lastMessage.content += (data as { token: string }).token;
+              updatedHistory[updatedHistory.length - 1] = { ...lastMessage, [field]: (lastMessage[field] ?? '') + token };
             } else {
               // Create new assistant message
               const newMessage: Message = {
                 id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
                 role: 'assistant',
-                content: (data as { token: string }).token,
+                content: field === 'content' ? token : '',
+                ...(field === 'reasoning' ? { reasoning: token } : {}),
                 timestamp: Date.now(),
-                modelId
+                modelId,
+                parameters: currentState.parameters
               };
               updatedHistory.push(newMessage);
             }
@@ -356,17 +622,108 @@ export default function ChatApp() {
           progress: null,
           retryable: (typeof data === 'object' && data && 'retryable' in data && typeof data.retryable === 'boolean') ? data.retryable : false
         });
+        // The failure may have opened the model's circuit
+        refreshModelHealth.current();
         break;
       
-      case 'end':
+      case 'fallback':
+        if (typeof data === 'object' && data && typeof data.model === 'string') {
+          const substitution = { model: data.model, reason: typeof data.reason === 'string' ? data.reason : 'unavailable' };
+          substitutionsRef.current.set(modelId, substitution.model);
+          updateModelState(modelId, { substitution });
+          // The requested model's failure may have opened its circuit
+          refreshModelHealth.current();
+        }
+        break;
+
+      case 'context':
+        if (event.type === 'context') {
+          updateModelState(modelId, { contextPlan: event.data });
+        }
+        break;
+
+      case 'usage':
+        if (typeof data === 'object' && data) {
+          const usage = data as TokenUsage;
+          // A fallback is billed at its own prices; without them the cost is unknown, not free
+          const answeringModel = substitutionsRef.current.get(modelId) ?? modelId;
+          // Replayed answers cost nothing this time
+          const cost = data.cached === true ? 0 : estimateResponseCost(usage, findModel(modelCatalogRef.current, answeringModel)?.prices);
+          updateModelState(modelId, { usage, cost });
+          if (cost === undefined) {
+            setCostTotals(totals => ({ ...totals, unpricedResponses: totals.unpricedResponses + 1 }));
+          } else if (cost > 0) {
+            setCostTotals(totals => ({ ...totals, session: totals.session + cost, conversation: totals.conversation + cost }));
+          }
+        }
+        break;
+
+      case 'end': {
+        if (typeof data === 'object' && data && data.stopped === true) {
+          // Keep the partial answer, flagged so it isn't mistaken for a full one
+          updateAssistantMessage(modelId, message => ({ ...message, stopped: true }));
+        }
+
+        if (typeof data === 'object' && data && data.cached === true) {
+          updateAssistantMessage(modelId, message => ({ ...message, cached: true }));
+        }
+
+        // A cut-off answer stays flagged until a continuation finishes it. The
+        // server may have lowered max_tokens to fit the window, so the answer
+        // keeps the limit it was actually generated with
+        setModelsState(currentMap => {
+          const currentState = currentMap.get(modelId);
+          const lastMessage = currentState?.history[currentState.history.length - 1];
+          if (!currentState || !lastMessage || lastMessage.role !== 'assistant' || lastMessage.modelId !== modelId) {
+            return currentMap;
+          }
+          const maxTokens = typeof data.maxTokens === 'number' ? data.maxTokens : lastMessage.parameters?.max_tokens;
+          if (lastMessage.truncated === data.truncated && maxTokens === lastMessage.parameters?.max_tokens) {
+            return currentMap;
+          }
+
+          const newMap = new Map(currentMap);
+          newMap.set(modelId, {
+            ...currentState,
+            history: [...currentState.history.slice(0, -1), {
+              ...lastMessage,
+              truncated: data.truncated,
+              parameters: maxTokens === undefined ? lastMessage.parameters : { ...lastMessage.parameters, max_tokens: maxTokens }
+            }]
+          });
+          return newMap;
+        });
+
+        // Record which model actually wrote the answer so history stays honest
+        const answeredBy = substitutionsRef.current.get(modelId);
+        if (answeredBy) {
+          updateAssistantMessage(modelId, message => ({ ...message, answeredBy }));
+        }
+
+        // Structured output mode: check the finished response against the schema it was asked for
+        setModelsState(currentMap => {
+          const currentState = currentMap.get(modelId);
+          const lastMessage = currentState?.history[currentState.history.length - 1];
+          if (!currentState?.responseSchema || !lastMessage || lastMessage.role !== 'assistant' || lastMessage.modelId !== modelId) {
+            return currentMap;
+          }
+
+          const newMap = new Map(currentMap);
+          const schemaValidation = validateResponse(lastMessage.content, currentState.responseSchema);
+          newMap.set(modelId, {
+            ...currentState,
+            history: [...currentState.history.slice(0, -1), { ...lastMessage, schemaValidation }]
+          });
+          return newMap;
+        });
+
         updateModelState(modelId, { 
           isLoading: false,
           progress: null,
           responseEndTime: Date.now()
         });
-        
-
         break;
+      }
     }
   };
 
@@ -396,15 +753,12 @@ export default function ChatApp() {
   };
 
   const handleNewChat = () => {
-    // Close existing connections
-    if (connectionPoolRef.current && currentConnectionRef.current) {
-      connectionPoolRef.current.closeConnection(currentConnectionRef.current);
-      currentConnectionRef.current = null;
-    }
+    // Close existing connections, including any opened to continue an answer
+    connectionPoolRef.current?.closeAllConnections();
 
     // Clear all responses and reset state
     const initialMap = new Map();
-    openRouterModels.forEach(model => {
+    modelCatalog.forEach(model => {
       initialMap.set(model.id, { history: [], isLoading: false, error: null, progress: null, retryable: false });
     });
     setModelsState(initialMap);
@@ -414,6 +768,7 @@ export default function ChatApp() {
     setGlobalError(null);
     setEvaluationRequested(null); // Reset evaluation tracking
     lastResponseTimestamp.current.clear(); // Clear response timestamps
+    setCostTotals(totals => ({ ...totals, conversation: 0 }));
     
     // Clear any pending evaluation
     if (evaluationTimeoutRef.current) {
@@ -422,25 +777,110 @@ export default function ChatApp() {
     }
   };
 
-  const handleSubmit = async (prompt: string) => {
+  const handleSubmit = async (prompt: string, attachments: Attachment[] = []) => {
     if (selectedModels.length === 0 || !connectionPoolRef.current) return;
 
+    // What each model would be sent: its history plus this prompt with attached files embedded
+    const promptMessagesFor = (modelId: ModelId) => getConversationContext(
+      addMessageToHistory(modelsState.get(modelId)?.history || [], prompt, 'user', undefined, attachments),
+      getSystemPrompt(modelId, systemPrompt, systemPromptOverrides)
+    );
+
+    // Older turns are dropped or summarized server-side to fit each model's window,
+    // but models the new prompt alone won't fit in are left out of the fan-out
+    const oversized = new Map<ModelId, string>();
+    selectedModels.forEach(modelId => {
+      const model = findModel(modelCatalog, modelId);
+      if (!model) return;
+      const promptTokens = estimateMessagesTokens(getConversationContext(
+        addMessageToHistory([], prompt, 'user', undefined, attachments),
+        getSystemPrompt(modelId, systemPrompt, systemPromptOverrides)
+      ));
+      if (promptTokens > model.contextLength) {
+        oversized.set(
+          modelId,
+          `Prompt is ~${formatTokenCount(promptTokens)} tokens, over ${model.name}'s ${formatTokenCount(model.contextLength)} context window; not sent.`
+        );
+      }
+    });
+    const modelsToSend = selectedModels.filter(modelId => !oversized.has(modelId));
+
+    if (oversized.size > 0) {
+      setModelsState(currentMap => {
+        const newMap = new Map(currentMap);
+        oversized.forEach((error, modelId) => {
+          const currentState = newMap.get(modelId) || { history: [], isLoading: false, error: null, progress: null, retryable: false };
+          newMap.set(modelId, { ...currentState, isLoading: false, error, progress: null, retryable: false });
+        });
+        return newMap;
+      });
+    }
+    if (modelsToSend.length === 0) return;
+
+    // Worst case for this fan-out: every model, or its priciest fallback, uses
+    // its full max_tokens in every tool step and continuation round. Models that
+    // may answer at an unknown price can't be held to the cap, so they need a say-so too
+    if (spendCap !== null) {
+      const catalogModelsToSend = modelsToSend
+        .map(modelId => findModel(modelCatalog, modelId))
+        .filter((model): model is NonNullable<typeof model> => model !== undefined);
+      const toolSteps = enabledTools.length > 0 ? MAX_TOOL_STEPS : 1;
+      const continuationRounds = autoContinue.enabled ? autoContinue.maxRounds + 1 : 1;
+      const estimate = estimateFanOutCost(
+        catalogModelsToSend,
+        modelCatalog,
+        model => promptMessagesFor(model.id),
+        model => generationParameters[model.id],
+        toolSteps * continuationRounds
+      );
+
+      const unpriced = findUnpricedModels(catalogModelsToSend, modelCatalog);
+
+      const warnings: string[] = [];
+      if (costTotals.session + estimate > spendCap) {
+        warnings.push(
+          `This prompt could cost up to ${formatCost(estimate)}, which would take the session past its ` +
+          `${formatCost(spendCap)} cap (${formatCost(costTotals.session)} spent so far).`
+        );
+      }
+      if (unpriced.length > 0) {
+        warnings.push(
+          `Cost unknown for ${unpriced.map(model => model.name).join(', ')}: a model or fallback without known ` +
+          `prices can't be held to the ${formatCost(spendCap)} cap.`
+        );
+      }
+      if (warnings.length > 0 && !window.confirm(`${warnings.join('\n\n')} Send it anyway?`)) return;
+    }
+
     setIsSubmitting(true);
     setCurrentPrompt(prompt);
 
-    // Close existing connection if any
-    if (currentConnectionRef.current) {
-      await connectionPoolRef.current.closeConnection(currentConnectionRef.current);
-    }
+    // Close existing connections, including any opened to continue an answer
+    await connectionPoolRef.current.closeAllConnections();
+
+    // PromptInput only allows submitting with a schema that parses
+    const parsedSchema = structuredOutput.enabled ? parseSchema(structuredOutput.schema) : null;
+    const responseSchema = parsedSchema && 'schema' in parsedSchema ? parsedSchema.schema : undefined;
+
+    const requestOptions = requestOptionsFor(modelsToSend, responseSchema);
+
+    // Models without vision get the text only; say so in their column rather than failing silently
+    const imageCount = attachments.filter(attachment => attachment.type === 'image').length;
+    const noticeFor = (modelId: ModelId): string | undefined => {
+      const model = findModel(modelCatalog, modelId);
+      if (imageCount === 0 || model?.capabilities?.vision) return undefined;
+      return `${model?.name || modelId} can't see images, so the ${imageCount} attached image${imageCount !== 1 ? 's were' : ' was'} not sent to it.`;
+    };
 
     // Add user message to all selected models' history and set loading state
     const requestStartTime = Date.now();
+    modelsToSend.forEach(modelId => substitutionsRef.current.delete(modelId));
     setModelsState(currentMap => {
       const newMap = new Map(currentMap);
       
-      selectedModels.forEach(modelId => {
+      modelsToSend.forEach(modelId => {
         const currentState = newMap.get(modelId) || { history: [], isLoading: false, error: null, progress: null, retryable: false };
-        const updatedHistory = addMessageToHistory(currentState.history, prompt, 'user');
+        const updatedHistory = addMessageToHistory(currentState.history, prompt, 'user', undefined, attachments);
         
         newMap.set(modelId, { 
           ...currentState,
@@ -449,6 +889,14 @@ export default function ChatApp() {
           error: null, 
           progress: 'Initializing...', 
           retryable: false,
+          parameters: resolveGenerationParameters(generationParameters[modelId]),
+          systemPrompt: getSystemPrompt(modelId, systemPrompt, systemPromptOverrides) || undefined,
+          usage: undefined,
+          cost: undefined,
+          responseSchema,
+          notice: noticeFor(modelId),
+          contextPlan: undefined,
+          substitution: undefined,
           // Initialize timing
           requestStartTime,
           firstTokenTime: undefined,
@@ -466,6 +914,7 @@ export default function ChatApp() {
       
       // Reset failed models to loading state
       failedModels.forEach(modelId => {
+        substitutionsRef.current.delete(modelId);
         setModelsState(currentMap => {
           const newMap = new Map(currentMap);
           const currentState = newMap.get(modelId) || { history: [], isLoading: false, error: null, progress: null, retryable: false };
@@ -473,7 +922,10 @@ export default function ChatApp() {
             ...currentState, 
             isLoading: true,
             error: null,
-            progress: 'Retrying...'
+            progress: 'Retrying...',
+            usage: undefined,
+            cost: undefined,
+            substitution: undefined
           });
           return newMap;
         });
@@ -483,13 +935,10 @@ export default function ChatApp() {
       setModelsState(currentMap => {
         const firstFailedModelState = currentMap.get(failedModels[0]);
         const conversationHistory = firstFailedModelState?.history || [];
-        const conversationContext = getConversationContext(conversationHistory.filter(msg => msg.role === 'user'));
+        const conversationContext = getConversationContext(conversationHistory.filter(msg => msg.role === 'user'), systemPrompt);
         
         // Create new connection for retry (async)
-        connectionPoolRef.current?.createConnection(conversationContext, failedModels)
-          .then(connectionId => {
-            currentConnectionRef.current = connectionId;
-          })
+        connectionPoolRef.current?.createConnection(conversationContext, failedModels, requestOptions)
           .catch(error => {
             console.error('Retry failed:', error);
             setIsSubmitting(false);
@@ -502,15 +951,14 @@ export default function ChatApp() {
 
     // Get conversation context for API call (from current state)
     setModelsState(currentMap => {
-      const firstSelectedModelState = currentMap.get(selectedModels[0]);
+      const firstSelectedModelState = currentMap.get(modelsToSend[0]);
       const currentHistory = firstSelectedModelState?.history || [];
-      const conversationContext = getConversationContext(currentHistory);
+      const conversationContext = getConversationContext(currentHistory, systemPrompt);
       
       // Create new connection using connection pool with conversation context (async)
-      connectionPoolRef.current?.createConnection(conversationContext, selectedModels)
+      connectionPoolRef.current?.createConnection(conversationContext, modelsToSend, requestOptions)
         .then(connectionId => {
-          currentConnectionRef.current = connectionId;
-          console.log(`Created connection ${connectionId} for models:`, selectedModels);
+          console.log(`Created connection ${connectionId} for models:`, modelsToSend);
         })
         .catch(error => {
           console.error('Failed to create connection:', error);
@@ -525,7 +973,7 @@ export default function ChatApp() {
           setGlobalError(errorMessage);
           
           // Set error for all requested models
-          selectedModels.forEach(modelId => {
+          modelsToSend.forEach(modelId => {
             setModelsState(currentMap => {
               const newMap = new Map(currentMap);
               const currentState = newMap.get(modelId) || { history: [], isLoading: false, error: null, progress: null, retryable: false };
@@ -557,6 +1005,8 @@ export default function ChatApp() {
           isCollapsed={isSidebarCollapsed}
           onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
           onNewChat={handleNewChat}
+          generationParameters={generationParameters}
+          onParametersChange={handleParametersChange}
         />
         <div className="flex-1 flex flex-col min-w-0">
           
@@ -627,6 +1077,19 @@ export default function ChatApp() {
                   </div>
                 )}
                 
+                {(costTotals.session > 0 || costTotals.unpricedResponses > 0) && (
+                  <div
+                    className="text-xs md:text-sm text-slate-400"
+                    title={
+                      `Spent in this conversation: ${formatCost(costTotals.conversation)}; since the page loaded: ${formatCost(costTotals.session)}` +
+                      (costTotals.unpricedResponses > 0 ? `, plus ${costTotals.unpricedResponses} response(s) of unknown cost` : '')
+                    }
+                  >
+                    {formatCost(costTotals.conversation)}
+                    <span className="hidden sm:inline"> chat · {formatCost(costTotals.session)} session</span>
+                  </div>
+                )}
+
                 <div className="text-xs md:text-sm text-slate-400">
                   {selectedModels.length}/4 model{selectedModels.length !== 1 ? 's' : ''}
                   <span className="hidden sm:inline"> selected</span>
@@ -641,6 +1104,8 @@ export default function ChatApp() {
               selectedModels={selectedModels}
               currentPrompt={currentPrompt}
               onFocusModel={(modelId) => setSelectedModels([modelId])}
+              onStopModel={handleStopModel}
+              onContinueModel={handleContinueModel}
             />
           </div>
 
@@ -649,6 +1114,8 @@ export default function ChatApp() {
             onSubmit={handleSubmit}
             isSubmitting={isSubmitting}
             disabled={selectedModels.length === 0}
+            selectedModels={selectedModels}
+            generationParameters={generationParameters}
           />
         </div>
       </div>
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState } from 'react';
-import { openRouterModels, ModelId } from '../lib/atoms';
+import { useAtom } from 'jotai';
+import { modelCatalogAtom, ModelId } from '../lib/atoms';
 
 interface ChatInputProps {
   onSubmit: (prompt: string, selectedModels: ModelId[]) => void;
@@ -11,6 +12,7 @@ interface ChatInputProps {
 export default function ChatInput({ onSubmit, isSubmitting }: ChatInputProps) {
   const [prompt, setPrompt] = useState('');
   const [selectedModels, setSelectedModels] = useState<ModelId[]>([]);
+  const [models] = useAtom(modelCatalogAtom);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -36,7 +38,7 @@ export default function ChatInput({ onSubmit, isSubmitting }: ChatInputProps) {
             Select AI Models to Compare
           </label>
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
-            {openRouterModels.map((model) => (
+            {models.map((model) => (
               <label
                 key={model.id}
                 className="flex items-center space-x-3 cursor-pointer p-3 bg-gray-800 rounded-lg hover:bg-gray-750 transition-colors"
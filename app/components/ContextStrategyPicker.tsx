@@ -0,0 +1,32 @@
+'use client';
+
+import { useAtom } from 'jotai';
+import { contextStrategyAtom } from '../lib/atoms';
+import type { ContextStrategy } from '../lib/contextPlanner';
+
+const STRATEGIES: { value: ContextStrategy; label: string; description: string }[] = [
+  { value: 'summarize', label: 'Summarize older turns', description: 'Replace turns that don\'t fit with a short digest of what was said' },
+  { value: 'truncate', label: 'Drop older turns', description: 'Send only the most recent turns that fit' }
+];
+
+export default function ContextStrategyPicker() {
+  const [contextStrategy, setContextStrategy] = useAtom(contextStrategyAtom);
+
+  return (
+    <div className="space-y-1" role="radiogroup" aria-label="Context strategy">
+      {STRATEGIES.map(strategy => (
+        <label key={strategy.value} className="flex items-center gap-2 text-xs pro-text-secondary cursor-pointer" title={strategy.description}>
+          <input
+            type="radio"
+            name="context-strategy"
+            value={strategy.value}
+            checked={contextStrategy === strategy.value}
+            onChange={() => setContextStrategy(strategy.value)}
+            className="border-gray-300 text-blue-600 focus:ring-blue-500 w-3.5 h-3.5"
+          />
+          <span>{strategy.label}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React from 'react';
 import { useAtom } from 'jotai';
 import { modelsStateAtom, getModelState, EVALUATOR_AGENT_ID } from '@/app/lib/atoms';
+import { formatTokenCount } from '@/app/lib/tokenEstimate';
 
 interface EvaluationData {
   summary: string;
@@ -36,6 +37,13 @@ interface EvaluationData {
     averageFirstTokenTime: number;
     averageTotalTime: number;
   };
+  verbosity?: Array<{
+    modelId: string;
+    modelName: string;
+    tokens: number;
+    words: number;
+    relativeLength: number;
+  }>;
   timestamp: number;
 }
 
@@ -335,7 +343,9 @@ export default function EvaluatorColumn() {
           <div>
             <h4 className="text-sm font-semibold pro-text-primary mb-3 text-teal-700">Detailed Scores</h4>
             <div className="space-y-3">
-              {evaluationData.scorecard.map((score, index) => (
+              {evaluationData.scorecard.map((score, index) => {
+                const verbosity = evaluationData.verbosity?.find(metrics => metrics.modelId === score.modelId);
+                return (
                 <div key={score.modelId} className="bg-white/40 backdrop-blur-sm rounded-lg p-3 border border-teal-200/50 shadow-sm">
                   <div className="flex items-center justify-between mb-2">
                     <span className="pro-text-primary font-semibold text-sm">
@@ -373,6 +383,12 @@ export default function EvaluatorColumn() {
                     </div>
                   </div>
 
+                  {verbosity && (
+                    <div className="mt-2 text-xs pro-text-muted font-mono" title="Estimated with the same token counter as costs and context checks">
+                      ~{formatTokenCount(verbosity.tokens)} tokens · {verbosity.words.toLocaleString()} words · {verbosity.relativeLength}x shortest
+                    </div>
+                  )}
+
                   {/* Visual score bar */}
                   <div className="mt-2">
                     <div className="w-full bg-gray-200 rounded-full h-1.5">
@@ -383,7 +399,8 @@ export default function EvaluatorColumn() {
                     </div>
                   </div>
                 </div>
-              ))}
+                );
+              })}
             </div>
           </div>
 
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  DEFAULT_GENERATION_PARAMETERS,
+  PARAMETER_LIMITS,
+  type GenerationParameters
+} from '../lib/generationParameters';
+
+interface GenerationSettingsProps {
+  modelId: string;
+  modelName: string;
+  parameters: GenerationParameters;
+  onChange: (parameters: GenerationParameters) => void;
+}
+
+const NUMERIC_FIELDS: Array<{ key: keyof typeof PARAMETER_LIMITS; label: string }> = [
+  { key: 'temperature', label: 'Temperature' },
+  { key: 'top_p', label: 'Top P' },
+  { key: 'max_tokens', label: 'Max tokens' },
+  { key: 'seed', label: 'Seed' },
+  { key: 'frequency_penalty', label: 'Frequency penalty' },
+  { key: 'presence_penalty', label: 'Presence penalty' }
+];
+
+export default function GenerationSettings({ modelId, modelName, parameters, onChange }: GenerationSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const overrideCount = Object.keys(parameters).length;
+  const fieldId = (key: string) => `params-${modelId.replace(/[^a-z0-9]/gi, '-')}-${key}`;
+
+  // Empty inputs fall back to the server defaults
+  const handleNumberChange = (key: keyof typeof PARAMETER_LIMITS, value: string) => {
+    const next = { ...parameters };
+    if (value.trim() === '' || Number.isNaN(Number(value))) {
+      delete next[key];
+    } else {
+      next[key] = Number(value);
+    }
+    onChange(next);
+  };
+
+  const handleStopChange = (value: string) => {
+    const next = { ...parameters };
+    const stop = value.split(',').map(s => s.trim()).filter(Boolean);
+    if (stop.length > 0) {
+      next.stop = stop;
+    } else {
+      delete next.stop;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="rounded-xl border pro-border mb-2">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-3 py-2 text-left"
+        aria-expanded={isOpen}
+        aria-controls={fieldId('panel')}
+      >
+        <span className="text-sm font-medium pro-text-primary truncate">{modelName}</span>
+        <span className="flex items-center gap-2 flex-shrink-0">
+          {overrideCount > 0 && (
+            <span className="text-xs px-2 py-0.5 rounded-full pro-bg-accent-light pro-accent font-medium">
+              {overrideCount} custom
+            </span>
+          )}
+          <svg className={`w-3 h-3 pro-text-muted transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </span>
+      </button>
+
+      {isOpen && (
+        <div id={fieldId('panel')} className="px-3 pb-3 space-y-2">
+          {NUMERIC_FIELDS.map(({ key, label }) => {
+            const limits = PARAMETER_LIMITS[key];
+            const defaultValue = DEFAULT_GENERATION_PARAMETERS[key];
+            return (
+              <div key={key} className="flex items-center justify-between gap-2">
+                <label htmlFor={fieldId(key)} className="text-xs pro-text-muted">{label}</label>
+                <input
+                  id={fieldId(key)}
+                  type="number"
+                  min={limits.min}
+                  max={limits.max}
+                  step={limits.step}
+                  value={parameters[key] ?? ''}
+                  placeholder={defaultValue !== undefined ? String(defaultValue) : 'default'}
+                  onChange={(e) => handleNumberChange(key, e.target.value)}
+                  className="pro-input w-24 text-xs"
+                  style={{ padding: '4px 8px', borderRadius: '8px' }}
+                />
+              </div>
+            );
+          })}
+
+          <div>
+            <label htmlFor={fieldId('stop')} className="text-xs pro-text-muted">Stop sequences</label>
+            <input
+              id={fieldId('stop')}
+              key={parameters.stop?.join(', ') ?? ''}
+              type="text"
+              defaultValue={parameters.stop?.join(', ') ?? ''}
+              placeholder="Comma separated"
+              onBlur={(e) => handleStopChange(e.target.value)}
+              className="pro-input w-full text-xs mt-1"
+              style={{ padding: '4px 8px', borderRadius: '8px' }}
+            />
+          </div>
+
+          <button
+            type="button"
+            onClick={() => onChange({})}
+            disabled={overrideCount === 0}
+            className="w-full px-2 py-1.5 text-xs rounded-md border pro-border pro-text-muted hover:pro-text-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { Model } from '../lib/atoms';
+import { formatPrices } from '../lib/cost';
 
 interface ModelTooltipProps {
   model: Model;
@@ -161,6 +162,14 @@ export default function ModelTooltip({ model, children, disabled }: ModelTooltip
                     {model.pricing === 'free' ? 'FREE' : 'PAID'}
                   </span>
                 </div>
+                {model.prices && model.pricing === 'paid' && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm pro-text-muted">Price (in / out):</span>
+                    <span className="text-xs font-medium pro-text-primary">
+                      {formatPrices(model.prices)}
+                    </span>
+                  </div>
+                )}
               </div>
 
               {/* Strengths */}
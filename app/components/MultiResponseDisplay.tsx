@@ -4,18 +4,22 @@ import { useState, useEffect } from 'react';
 import { useAtom } from 'jotai';
 import ResponseColumn from './ResponseColumn';
 import EvaluatorColumn from './EvaluatorColumn';
-import { openRouterModels, modelsStateAtom, EVALUATOR_AGENT_ID, getModelState } from '../lib/atoms';
+import { modelCatalogAtom, modelsStateAtom, EVALUATOR_AGENT_ID, getModelState } from '../lib/atoms';
+import { findModel } from '../lib/modelCatalog';
 
 interface MultiResponseDisplayProps {
   selectedModels: string[];
   currentPrompt?: string;
   onFocusModel?: (modelId: string) => void;
+  onStopModel?: (modelId: string) => void;
+  onContinueModel?: (modelId: string) => void;
 }
 
-export default function MultiResponseDisplay({ selectedModels, currentPrompt, onFocusModel }: MultiResponseDisplayProps) {
+export default function MultiResponseDisplay({ selectedModels, currentPrompt, onFocusModel, onStopModel, onContinueModel }: MultiResponseDisplayProps) {
   const [activeTab, setActiveTab] = useState(0);
   const [isMobile, setIsMobile] = useState(false);
   const [modelsState] = useAtom(modelsStateAtom);
+  const [models] = useAtom(modelCatalogAtom);
   
   // Check if evaluator has results to display
   const evaluatorState = getModelState(EVALUATOR_AGENT_ID, modelsState);
@@ -128,7 +132,7 @@ export default function MultiResponseDisplay({ selectedModels, currentPrompt, on
         <div className="bg-slate-800 border-b border-slate-700 sticky top-0 z-10" role="tablist" aria-label="AI Model Responses">
           <div className="flex overflow-x-auto scrollbar-hide">
             {selectedModels.map((modelId, index) => {
-              const model = openRouterModels.find(m => m.id === modelId);
+              const model = findModel(models, modelId);
               return (
                 <button
                   key={modelId}
@@ -230,6 +234,8 @@ export default function MultiResponseDisplay({ selectedModels, currentPrompt, on
               currentPrompt={currentPrompt}
               totalModels={selectedModels.length}
               onFocusModel={onFocusModel}
+              onStopModel={onStopModel}
+              onContinueModel={onContinueModel}
             />
           )}
         </div>
@@ -268,6 +274,8 @@ export default function MultiResponseDisplay({ selectedModels, currentPrompt, on
               currentPrompt={currentPrompt}
               totalModels={selectedModels.length}
               onFocusModel={onFocusModel}
+              onStopModel={onStopModel}
+              onContinueModel={onContinueModel}
             />
           </div>
         ))}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useAtom } from 'jotai';
+import {
+  contextStrategyAtom,
+  getConversationContext,
+  getSystemPrompt,
+  modelCatalogAtom,
+  modelsStateAtom,
+  systemPromptAtom,
+  systemPromptOverridesAtom,
+  type Attachment,
+  type Message,
+  type ModelId
+} from '../lib/atoms';
+import { contextBudget } from '../lib/contextPlanner';
+import { resolveGenerationParameters, type GenerationParameters } from '../lib/generationParameters';
+import { findModel } from '../lib/modelCatalog';
+import { estimateMessagesTokens, formatTokenCount } from '../lib/tokenEstimate';
+
+interface PromptBudgetProps {
+  prompt: string;
+  attachments: Attachment[];
+  selectedModels: ModelId[];
+  generationParameters: Record<string, GenerationParameters>;
+}
+
+// History messages don't change once finished, so their counts are kept across keystrokes
+const messageTokenCache = new WeakMap<Message, number>();
+
+const messageTokens = (message: Message): number => {
+  let tokens = messageTokenCache.get(message);
+  if (tokens === undefined) {
+    tokens = estimateMessagesTokens(getConversationContext([message]));
+    messageTokenCache.set(message, tokens);
+  }
+  return tokens;
+};
+
+// Live estimate of what the draft would send, with a badge for every selected
+// model whose context window it would overflow
+export default function PromptBudget({ prompt, attachments, selectedModels, generationParameters }: PromptBudgetProps) {
+  const [modelsState] = useAtom(modelsStateAtom);
+  const [modelCatalog] = useAtom(modelCatalogAtom);
+  const [systemPrompt] = useAtom(systemPromptAtom);
+  const [systemPromptOverrides] = useAtom(systemPromptOverridesAtom);
+  const [contextStrategy] = useAtom(contextStrategyAtom);
+
+  const draftTokens = useMemo(
+    () => (prompt.trim() || attachments.length > 0
+      ? messageTokens({ id: 'draft', role: 'user', content: prompt.trim(), timestamp: 0, attachments })
+      : 0),
+    [prompt, attachments]
+  );
+
+  const budgets = selectedModels.flatMap(modelId => {
+    const model = findModel(modelCatalog, modelId);
+    if (!model) return [];
+    const modelSystemPrompt = getSystemPrompt(modelId, systemPrompt, systemPromptOverrides).trim();
+    const systemTokens = modelSystemPrompt ? estimateMessagesTokens([{ content: modelSystemPrompt }]) : 0;
+    const historyTokens = (modelsState.get(modelId)?.history || []).reduce((total, message) => total + messageTokens(message), 0);
+    const total = systemTokens + historyTokens + draftTokens;
+    return [{
+      model,
+      total,
+      // Same checks as sending: the draft alone must fit, and the history is trimmed to the budget
+      status: systemTokens + draftTokens > model.contextLength
+        ? 'blocked' as const
+        : total > contextBudget(model.contextLength, resolveGenerationParameters(generationParameters[modelId]).max_tokens)
+          ? 'trimmed' as const
+          : 'ok' as const
+    }];
+  });
+
+  if (budgets.length === 0 || (draftTokens === 0 && budgets.every(budget => budget.total === 0))) return null;
+
+  const largest = Math.max(...budgets.map(budget => budget.total));
+  const warnings = budgets.filter(budget => budget.status !== 'ok');
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center justify-center gap-2 text-xs" aria-live="polite">
+      <span
+        className="pro-text-muted font-mono"
+        title={budgets.map(budget => `${budget.model.name}: ~${budget.total.toLocaleString()} of ${budget.model.contextLength.toLocaleString()} tokens`).join('\n')}
+      >
+        ~{formatTokenCount(draftTokens)} tokens draft · ~{formatTokenCount(largest)} with history
+      </span>
+      {warnings.map(({ model, total, status }) => (
+        <span
+          key={model.id}
+          className={`px-2 py-0.5 rounded-full border ${
+            status === 'blocked' ? 'bg-red-50 text-red-700 border-red-200' : 'bg-amber-50 text-amber-800 border-amber-200'
+          }`}
+          title={status === 'blocked'
+            ? `The prompt alone is over ${model.name}'s context window, so it won't be sent to this model`
+            : `Older turns will be ${contextStrategy === 'summarize' ? 'summarized' : 'dropped'} to fit ${model.name}'s context window`}
+        >
+          {model.name}: ~{formatTokenCount(total)} / {formatTokenCount(model.contextLength)}
+          {status === 'blocked' ? ' · not sent' : ` · ${contextStrategy === 'summarize' ? 'summarizes' : 'drops'} older turns`}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -1,16 +1,33 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
+import { useAtom } from 'jotai';
+import { bypassCacheAtom, structuredOutputAtom, type Attachment, type ModelId } from '../lib/atoms';
+import { ATTACHMENT_ACCEPT, readAttachments } from '../lib/attachments';
+import type { GenerationParameters } from '../lib/generationParameters';
+import { parseSchema } from '../lib/jsonSchema';
+import AttachmentPreview from './AttachmentPreview';
+import PromptBudget from './PromptBudget';
 
 interface PromptInputProps {
-  onSubmit: (prompt: string) => void;
+  onSubmit: (prompt: string, attachments: Attachment[]) => void;
   isSubmitting: boolean;
   disabled?: boolean;
+  selectedModels: ModelId[];
+  generationParameters: Record<string, GenerationParameters>;
 }
 
-export default function PromptInput({ onSubmit, isSubmitting, disabled = false }: PromptInputProps) {
+export default function PromptInput({ onSubmit, isSubmitting, disabled = false, selectedModels, generationParameters }: PromptInputProps) {
   const [prompt, setPrompt] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [structuredOutput, setStructuredOutput] = useAtom(structuredOutputAtom);
+  const [bypassCache, setBypassCache] = useAtom(bypassCacheAtom);
+  const schemaResult = structuredOutput.enabled ? parseSchema(structuredOutput.schema) : null;
+  const schemaError = schemaResult && 'error' in schemaResult ? schemaResult.error : null;
 
   // Auto-resize textarea
   useEffect(() => {
@@ -20,11 +37,44 @@ export default function PromptInput({ onSubmit, isSubmitting, disabled = false }
     }
   }, [prompt]);
 
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const { attachments: added, errors } = await readAttachments(files, attachments.length);
+    setAttachments(prev => [...prev, ...added]);
+    setAttachmentError(errors.length > 0 ? errors.join('. ') : null);
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments(prev => prev.filter(attachment => attachment.id !== id));
+    setAttachmentError(null);
+  };
+
+  // Pasted screenshots arrive as files; plain text pastes keep the default behaviour
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!isSubmitting && !disabled) {
+      addFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  const hasContent = Boolean(prompt.trim()) || attachments.length > 0;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (prompt.trim() && !isSubmitting && !disabled) {
-      onSubmit(prompt.trim());
+    if (hasContent && !isSubmitting && !disabled && !schemaError) {
+      onSubmit(prompt.trim(), attachments);
       setPrompt('');
+      setAttachments([]);
+      setAttachmentError(null);
       // Reset textarea height
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto';
@@ -39,13 +89,55 @@ export default function PromptInput({ onSubmit, isSubmitting, disabled = false }
     }
   };
 
-  const isSubmitDisabled = !prompt.trim() || isSubmitting || disabled;
+  const isSubmitDisabled = !hasContent || isSubmitting || disabled || Boolean(schemaError);
 
   return (
     <div className="border-t pro-border bg-white/80 backdrop-blur-lg p-4 md:p-6 z-50 flex-shrink-0" role="region" aria-label="Message input">
       <div className="max-w-6xl mx-auto">
         <form onSubmit={handleSubmit} className="relative">
-          <div className="relative pro-card hover:shadow-lg transition-all duration-300 focus-within:shadow-lg focus-within:border-blue-300">
+          {structuredOutput.enabled && (
+            <div className="mb-3 pro-card p-3">
+              <label htmlFor="response-schema" className="block text-xs font-medium pro-text-secondary mb-1">
+                JSON Schema every response must follow
+              </label>
+              <textarea
+                id="response-schema"
+                value={structuredOutput.schema}
+                onChange={(e) => setStructuredOutput(prev => ({ ...prev, schema: e.target.value }))}
+                placeholder='{"type": "object", "properties": {"name": {"type": "string"}}, "required": ["name"]}'
+                rows={4}
+                className="pro-input w-full text-xs font-mono resize-y"
+                style={{ padding: '8px 10px', borderRadius: '8px' }}
+                aria-invalid={Boolean(schemaError)}
+                aria-describedby="response-schema-status"
+              />
+              <p id="response-schema-status" className={`text-xs mt-1 ${schemaError ? 'text-red-500' : 'pro-text-muted'}`}>
+                {schemaError
+                  ? `Invalid schema: ${schemaError}`
+                  : 'Sent as response_format where the model supports it, otherwise added to the prompt.'}
+              </p>
+            </div>
+          )}
+          <div
+            className={`relative pro-card hover:shadow-lg transition-all duration-300 focus-within:shadow-lg focus-within:border-blue-300 ${
+              isDragging ? 'ring-2 ring-blue-400' : ''
+            }`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+          >
+            {attachments.length > 0 && (
+              <ul className="flex flex-wrap items-center gap-2 px-4 pt-3" aria-label="Attachments">
+                {attachments.map(attachment => (
+                  <li key={attachment.id}>
+                    <AttachmentPreview attachment={attachment} onRemove={() => removeAttachment(attachment.id)} />
+                  </li>
+                ))}
+              </ul>
+            )}
             <label htmlFor="prompt-input" className="sr-only">
               Enter your message to send to AI models
             </label>
@@ -55,6 +147,7 @@ export default function PromptInput({ onSubmit, isSubmitting, disabled = false }
               value={prompt}
               onChange={(e) => setPrompt(e.target.value)}
               onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
               placeholder="Ask anything to multiple AI models..."
               className="w-full bg-transparent pro-text-primary placeholder:pro-text-muted resize-none outline-none p-4 md:p-5 pr-14 md:pr-16 min-h-[60px] md:min-h-[64px] max-h-[160px] md:max-h-[200px] text-sm md:text-base leading-relaxed"
               rows={1}
@@ -87,7 +180,60 @@ export default function PromptInput({ onSubmit, isSubmitting, disabled = false }
             </button>
           </div>
           
+          {attachmentError && (
+            <p className="mt-2 text-xs text-red-500 text-center" role="alert">{attachmentError}</p>
+          )}
+
+          <PromptBudget
+            prompt={prompt}
+            attachments={attachments}
+            selectedModels={selectedModels}
+            generationParameters={generationParameters}
+          />
+
           <div id="prompt-help" className="mt-3 text-xs pro-text-muted text-center flex items-center justify-center gap-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ATTACHMENT_ACCEPT}
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isSubmitting || disabled}
+              className="px-2 py-0.5 rounded border pro-border hover:pro-text-primary disabled:opacity-50"
+              title="Attach images or text files (you can also paste or drop them)"
+            >
+              Attach
+            </button>
+            <button
+              type="button"
+              onClick={() => setStructuredOutput(prev => ({ ...prev, enabled: !prev.enabled }))}
+              className={`px-2 py-0.5 rounded border font-mono transition-colors ${
+                structuredOutput.enabled ? 'pro-bg-accent text-white border-transparent' : 'pro-border hover:pro-text-primary'
+              }`}
+              aria-pressed={structuredOutput.enabled}
+              title="Ask every model for JSON matching a schema and validate the responses"
+            >
+              {'{ }'} Structured output
+            </button>
+            <button
+              type="button"
+              onClick={() => setBypassCache(prev => !prev)}
+              className={`px-2 py-0.5 rounded border transition-colors ${
+                bypassCache ? 'pro-bg-accent text-white border-transparent' : 'pro-border hover:pro-text-primary'
+              }`}
+              aria-pressed={bypassCache}
+              title="Get fresh answers even when the server has this exact request cached"
+            >
+              Bypass cache
+            </button>
             <span className="hidden md:inline flex items-center gap-1">
               <kbd className="px-1.5 py-0.5 text-xs pro-surface border pro-border rounded font-mono">Enter</kbd>
               to send
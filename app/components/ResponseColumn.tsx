@@ -2,25 +2,51 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useAtom } from 'jotai';
-import { openRouterModels, modelsStateAtom, getModelState, type ModelId, type Message } from '../lib/atoms';
+import { getModelStatus, modelCatalogAtom, modelHealthAtom, modelsStateAtom, systemPromptOverridesAtom, getModelState, type ModelId, type Message } from '../lib/atoms';
 import { useToast } from '../lib/toastContext';
+import { formatGenerationParameters } from '../lib/generationParameters';
+import { findModel } from '../lib/modelCatalog';
+import { formatCost } from '../lib/cost';
+import { describeContextPlan } from '../lib/contextPlanner';
 import MarkdownRenderer from './MarkdownRenderer';
+import AssistantMessageBody from './AssistantMessageBody';
+import AttachmentPreview from './AttachmentPreview';
+import SystemPromptEditor from './SystemPromptEditor';
 
 interface ResponseColumnProps {
   modelId: ModelId;
   currentPrompt?: string;
   totalModels?: number;
   onFocusModel?: (modelId: ModelId) => void;
+  onStopModel?: (modelId: ModelId) => void;
+  onContinueModel?: (modelId: ModelId) => void;
 }
 
-export default function ResponseColumn({ modelId, currentPrompt, totalModels = 1, onFocusModel }: ResponseColumnProps) {
+export default function ResponseColumn({ modelId, currentPrompt, totalModels = 1, onFocusModel, onStopModel, onContinueModel }: ResponseColumnProps) {
   const [showCopyButton, setShowCopyButton] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
   const [modelsState] = useAtom(modelsStateAtom);
-  const model = openRouterModels.find(m => m.id === modelId);
+  const [systemPromptOverrides] = useAtom(systemPromptOverridesAtom);
+  const [showSystemPrompt, setShowSystemPrompt] = useState(false);
+  const [models] = useAtom(modelCatalogAtom);
+  const model = findModel(models, modelId);
+  const [health] = useAtom(modelHealthAtom);
+  const modelStatus = model ? getModelStatus(model, health) : undefined;
   
   const modelState = getModelState(modelId, modelsState);
-  const { history, isLoading: isLoadingState, error: errorMessage, progress, retryable } = modelState;
+  const { history, isLoading: isLoadingState, error: errorMessage, progress, retryable, systemPrompt, usage, cost, contextPlan, substitution } = modelState;
+  const modelName = (id: ModelId) => findModel(models, id)?.name || id;
+  const lastMessage = history[history.length - 1];
+  const canContinue = !isLoadingState && lastMessage?.role === 'assistant' && Boolean(lastMessage.truncated);
+
+  // Output speed over the streaming window, once the provider has reported counts
+  const streamingSeconds = modelState.responseEndTime && modelState.firstTokenTime
+    ? (modelState.responseEndTime - modelState.firstTokenTime) / 1000
+    : null;
+  const tokensPerSecond = usage?.completionTokens && streamingSeconds && streamingSeconds > 0
+    ? usage.completionTokens / streamingSeconds
+    : null;
+  const hasSystemPromptOverride = Boolean(systemPromptOverrides[modelId]?.trim());
 
   const [copyError, setCopyError] = useState<string | null>(null);
   const [selectedText, setSelectedText] = useState<string>('');
@@ -258,6 +284,15 @@ export default function ResponseColumn({ modelId, currentPrompt, totalModels = 1
                   {model.provider}
                 </p>
               )}
+              {substitution && (
+                <p
+                  className="mt-1 inline-block max-w-full truncate text-xs px-2 py-0.5 rounded-full bg-amber-50 text-amber-800 border border-amber-200 font-medium"
+                  title={`${substitution.reason}, so ${modelName(substitution.model)} answered instead`}
+                  role="status"
+                >
+                  Answered by {modelName(substitution.model)}
+                </p>
+              )}
             </div>
           </div>
           
@@ -276,6 +311,34 @@ export default function ResponseColumn({ modelId, currentPrompt, totalModels = 1
               </div>
             )}
             
+            {isLoadingState && onStopModel && (
+              <button
+                onClick={() => onStopModel(modelId)}
+                className="flex items-center gap-2 px-3 py-1.5 text-xs pro-text-muted hover:pro-text-primary border pro-border rounded-lg transition-all duration-200 font-medium"
+                title="Stop this model and keep the partial response"
+                aria-label={`Stop ${model?.name || modelId}`}
+              >
+                <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                  <rect x="6" y="6" width="12" height="12" rx="1" />
+                </svg>
+                Stop
+              </button>
+            )}
+
+            {canContinue && onContinueModel && (
+              <button
+                onClick={() => onContinueModel(modelId)}
+                className="flex items-center gap-2 px-3 py-1.5 text-xs bg-amber-50 hover:bg-amber-100 text-amber-700 border border-amber-200 rounded-lg transition-all duration-200 font-medium"
+                title="Ask the model to pick up where its answer stopped"
+                aria-label={`Continue the response from ${model?.name || modelId}`}
+              >
+                <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                  <path d="M8 5v14l11-7z" />
+                </svg>
+                Continue
+              </button>
+            )}
+
             {errorMessage && retryable && (
               <button
                 onClick={handleRetry}
@@ -290,6 +353,21 @@ export default function ResponseColumn({ modelId, currentPrompt, totalModels = 1
               </button>
             )}
             
+            {/* Per-column system prompt override */}
+            <button
+              onClick={() => setShowSystemPrompt(!showSystemPrompt)}
+              className={`flex items-center gap-2 px-3 py-1.5 text-xs border rounded-lg transition-all duration-200 font-medium ${
+                hasSystemPromptOverride
+                  ? 'pro-bg-accent-light pro-accent border-blue-200'
+                  : 'pro-text-muted pro-border hover:pro-text-primary'
+              }`}
+              title={hasSystemPromptOverride ? 'This model uses its own system prompt' : 'Override the system prompt for this model'}
+              aria-label={`Edit system prompt for ${model?.name || modelId}`}
+              aria-expanded={showSystemPrompt}
+            >
+              System
+            </button>
+
             {/* Focus Mode Button - only show when more than 1 model */}
             {totalModels > 1 && onFocusModel && (
               <button
@@ -308,10 +386,29 @@ export default function ResponseColumn({ modelId, currentPrompt, totalModels = 1
         </div>
       </header>
 
+      {showSystemPrompt && (
+        <div className="px-4 py-3 border-b pro-border bg-white/50" style={{ flexShrink: 0 }}>
+          <div className="text-xs pro-text-muted font-medium mb-2">
+            System prompt for {model?.name || modelId}
+          </div>
+          <SystemPromptEditor modelId={modelId} />
+        </div>
+      )}
+
       {/* Chat Content Area - Modern and Clean */}
       <div className="flex-1 overflow-y-auto response-scroll-area bg-gradient-to-b from-white/20 to-transparent p-4">
         {/* Conversation History */}
         <div className="space-y-4">
+          {modelState.notice && (
+            <div className="text-xs rounded-lg px-3 py-2 bg-amber-50 text-amber-800 border border-amber-200" role="status">
+              {modelState.notice}
+            </div>
+          )}
+          {systemPrompt && history.length > 0 && (
+            <div className="text-xs pro-text-muted border pro-border rounded-lg px-3 py-2 line-clamp-2" title={systemPrompt}>
+              <span className="font-semibold">System:</span> {systemPrompt}
+            </div>
+          )}
           {history.map((message, index) => (
             <div key={message.id} className="w-full">
               {message.role === 'user' ? (
@@ -327,6 +424,13 @@ export default function ResponseColumn({ modelId, currentPrompt, totalModels = 1
                         </div>
                         <span className="text-xs font-semibold opacity-90">You</span>
                       </div>
+                      {message.attachments && message.attachments.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-2">
+                          {message.attachments.map(attachment => (
+                            <AttachmentPreview key={attachment.id} attachment={attachment} size="large" />
+                          ))}
+                        </div>
+                      )}
                       <MarkdownRenderer 
                         content={message.content} 
                         className="text-sm" 
@@ -356,11 +460,56 @@ export default function ResponseColumn({ modelId, currentPrompt, totalModels = 1
                           </span>
                           <div 
                             className={`w-2 h-2 rounded-full ${
-                              model?.status === 'available' ? 'bg-green-500' :
-                              model?.status === 'rate-limited' ? 'bg-yellow-500' : 'bg-red-500'
+                              modelStatus === 'available' ? 'bg-green-500' :
+                              modelStatus === 'rate-limited' ? 'bg-yellow-500' : 'bg-red-500'
                             }`}
                           />
+                          {message.stopped && (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 border border-amber-200 font-medium">
+                              Stopped
+                            </span>
+                          )}
+                          {message.truncated === 'stalled' && (
+                            <span
+                              className="text-xs px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 border border-amber-200 font-medium"
+                              title="The model stopped sending tokens, so this answer is incomplete"
+                            >
+                              Stalled
+                            </span>
+                          )}
+                          {message.truncated === 'length' && (
+                            <span
+                              className="text-xs px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 border border-amber-200 font-medium"
+                              title={`The answer hit the ${message.parameters?.max_tokens ?? 'max_tokens'} token limit and is incomplete`}
+                            >
+                              Cut off
+                            </span>
+                          )}
+                          {message.cached && (
+                            <span
+                              className="text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 border border-slate-200 font-medium"
+                              title="Replayed from the response cache with its original timing"
+                            >
+                              Cached
+                            </span>
+                          )}
+                          {message.answeredBy && (
+                            <span
+                              className="text-xs px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 border border-amber-200 font-medium truncate"
+                              title={`${model?.name || modelId} was unavailable; this response is from ${modelName(message.answeredBy)}`}
+                            >
+                              via {modelName(message.answeredBy)}
+                            </span>
+                          )}
                         </div>
+                        {message.parameters && (
+                          <p
+                            className="text-xs pro-text-muted font-mono -mt-2 mb-3 truncate"
+                            title={`Generated with ${formatGenerationParameters(message.parameters)}`}
+                          >
+                            {formatGenerationParameters(message.parameters)}
+                          </p>
+                        )}
                         <div 
                           className="whitespace-pre-wrap pro-text-primary leading-relaxed text-sm break-words select-text relative"
                           onMouseUp={handleTextSelection}
@@ -371,9 +520,13 @@ export default function ResponseColumn({ modelId, currentPrompt, totalModels = 1
                           aria-live="polite"
                           aria-atomic="false"
                         >
-                          <MarkdownRenderer 
-                            content={message.content} 
-                            className="text-sm" 
+                          <AssistantMessageBody
+                            modelId={modelId}
+                            content={message.content}
+                            reasoning={message.reasoning}
+                            toolCalls={message.toolCalls}
+                            schemaValidation={message.schemaValidation}
+                            isStreaming={isLoadingState && index === history.length - 1}
                           />
                           
                           {/* Copy animation overlay */}
@@ -524,8 +677,30 @@ export default function ResponseColumn({ modelId, currentPrompt, totalModels = 1
         {history.some(msg => msg.role === 'assistant' && msg.modelId === modelId) && (
           <div className="mt-6 pt-4 border-t border-slate-600/30">
             <div className="flex items-center justify-between">
-              <div className="text-xs text-slate-400">
-                All responses from {model?.name || modelId}
+              <div className="min-w-0">
+                <div className="text-xs text-slate-400">
+                  All responses from {model?.name || modelId}
+                </div>
+                {usage && (
+                  <div className="text-xs text-slate-400 font-mono mt-1 truncate" title="Token usage of the latest response, as reported by the provider">
+                    {[
+                      usage.promptTokens !== undefined && `${usage.promptTokens.toLocaleString()} in`,
+                      usage.completionTokens !== undefined && `${usage.completionTokens.toLocaleString()} out`,
+                      usage.reasoningTokens ? `${usage.reasoningTokens.toLocaleString()} reasoning` : null,
+                      tokensPerSecond !== null && `${tokensPerSecond.toFixed(1)} tok/s`,
+                      cost !== undefined ? formatCost(cost) : 'cost unknown',
+                      usage.finishReason && `finish: ${usage.finishReason}`
+                    ].filter(Boolean).join(' · ')}
+                  </div>
+                )}
+                {contextPlan && (
+                  <div
+                    className={`text-xs mt-1 truncate ${contextPlan.strategy === 'full' ? 'text-slate-400' : 'text-amber-400'}`}
+                    title="How the conversation was fitted into this model's context window for the latest request"
+                  >
+                    Context: {describeContextPlan(contextPlan)}
+                  </div>
+                )}
               </div>
               
               <div className="flex items-center gap-2">
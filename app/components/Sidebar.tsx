@@ -1,6 +1,23 @@
 'use client';
-import { openRouterModels, type ModelId } from '../lib/atoms';
+import { useAtom } from 'jotai';
+import { getModelStatus, modelCatalogAtom, modelHealthAtom, type ModelId } from '../lib/atoms';
+import { type GenerationParameters } from '../lib/generationParameters';
+import { findModel } from '../lib/modelCatalog';
 import ModelTooltip from './ModelTooltip';
+import GenerationSettings from './GenerationSettings';
+import SystemPromptEditor from './SystemPromptEditor';
+import ContextStrategyPicker from './ContextStrategyPicker';
+import AutoContinueSetting from './AutoContinueSetting';
+import ApiKeysDialog from './ApiKeysDialog';
+import SpendCapInput from './SpendCapInput';
+import ToolPicker from './ToolPicker';
+
+// "in 45s" / "in 3m" until an open circuit is expected to close
+const formatRecovery = (retryAt: number): string => {
+  const seconds = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+  if (seconds === 0) return 'shortly';
+  return seconds < 60 ? `in ${seconds}s` : `in ${Math.ceil(seconds / 60)}m`;
+};
 
 interface SidebarProps {
   selectedModels: ModelId[];
@@ -8,14 +25,19 @@ interface SidebarProps {
   isCollapsed: boolean;
   onToggleCollapse: () => void;
   onNewChat: () => void;
+  generationParameters: Record<string, GenerationParameters>;
+  onParametersChange: (modelId: ModelId, parameters: GenerationParameters) => void;
 }
 
-export default function Sidebar({ selectedModels, onModelToggle, isCollapsed, onToggleCollapse, onNewChat }: SidebarProps) {
+export default function Sidebar({ selectedModels, onModelToggle, isCollapsed, onToggleCollapse, onNewChat, generationParameters, onParametersChange }: SidebarProps) {
+  const [models] = useAtom(modelCatalogAtom);
+  const [health] = useAtom(modelHealthAtom);
+
   const handleSelectAll = () => {
-    const availableModels = openRouterModels
-      .filter(model => model.status === 'available')
+    const availableModels = models
+      .filter(model => getModelStatus(model, health) === 'available')
       .slice(0, 4) // Limit to 4 models
-      .map(model => model.id as ModelId);
+      .map(model => model.id);
     
     availableModels.forEach(modelId => {
       if (!selectedModels.includes(modelId)) {
@@ -31,7 +53,7 @@ export default function Sidebar({ selectedModels, onModelToggle, isCollapsed, on
   };
 
   // Calculate available models count
-  const availableModelsCount = openRouterModels.filter(model => model.status === 'available').length;
+  const availableModelsCount = models.filter(model => getModelStatus(model, health) === 'available').length;
   
   // Check if we can select all or clear all
   const canSelectAll = availableModelsCount > 0 && selectedModels.length < 4;
@@ -122,12 +144,15 @@ export default function Sidebar({ selectedModels, onModelToggle, isCollapsed, on
 
           <fieldset className="space-y-1">
             <legend className="sr-only">Available AI Models for Selection</legend>
-            {openRouterModels.map((model, index) => {
-              const isSelected = selectedModels.includes(model.id as ModelId);
-              const isDisabled = (!isSelected && selectedModels.length >= 4) || model.status !== 'available';
+            {models.map((model, index) => {
+              const isSelected = selectedModels.includes(model.id);
+              const status = getModelStatus(model, health);
+              const retryAt = health[model.id]?.retryAt;
+              // Selected models stay deselectable even after they turn unhealthy
+              const isDisabled = !isSelected && (selectedModels.length >= 4 || status !== 'available');
               
               const getStatusIndicator = () => {
-                switch (model.status) {
+                switch (status) {
                   case 'available':
                     return <div className="w-2 h-2 bg-green-400 rounded-full" title="Available" aria-label="Available" />;
                   case 'rate-limited':
@@ -140,7 +165,9 @@ export default function Sidebar({ selectedModels, onModelToggle, isCollapsed, on
               };
 
               const getDisabledReason = () => {
-                if (model.status !== 'available') return `Model is ${model.status}`;
+                if (status !== 'available') {
+                  return retryAt ? `Model is ${status}, expected back ${formatRecovery(retryAt)}` : `Model is ${status}`;
+                }
                 if (!isSelected && selectedModels.length >= 4) return 'Maximum 4 models can be selected';
                 return '';
               };
@@ -153,12 +180,12 @@ export default function Sidebar({ selectedModels, onModelToggle, isCollapsed, on
                       : isDisabled 
                         ? 'cursor-not-allowed opacity-50 border-gray-200' 
                         : 'cursor-pointer hover:pro-surface-elevated hover:shadow-sm border-gray-200 hover:border-gray-300 focus-within:ring-2 focus-within:ring-blue-500'
-                  } ${isCollapsed ? 'justify-center' : ''}`}>
+                  } ${isSelected && status !== 'available' ? 'opacity-60' : ''} ${isCollapsed ? 'justify-center' : ''}`}>
                     <input
                       type="checkbox"
                       checked={isSelected}
                       disabled={isDisabled}
-                      onChange={() => onModelToggle(model.id as ModelId)}
+                      onChange={() => onModelToggle(model.id)}
                       className={`rounded-md border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-2 disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0 ${
                         isCollapsed ? 'w-4 h-4' : 'w-4 h-4'
                       }`}
@@ -187,8 +214,16 @@ export default function Sidebar({ selectedModels, onModelToggle, isCollapsed, on
                           }`}>
                             {model.provider}
                           </p>
+                          {status !== 'available' && retryAt && (
+                            <p
+                              className={`text-xs truncate mt-1 ${status === 'rate-limited' ? 'text-yellow-600' : 'text-red-500'}`}
+                              title={`${health[model.id]?.reason ?? 'Unhealthy'} - expected back at ${new Date(retryAt).toLocaleTimeString()}`}
+                            >
+                              {status === 'rate-limited' ? 'Rate limited' : 'Unavailable'}, back {formatRecovery(retryAt)}
+                            </p>
+                          )}
                           <div id={`model-${index}-description`} className="sr-only">
-                            {model.fullName} by {model.provider}. Status: {model.status}. 
+                            {model.fullName} by {model.provider}. Status: {status}. 
                             {model.description}
                             {isDisabled && ` - ${getDisabledReason()}`}
                           </div>
@@ -223,7 +258,7 @@ export default function Sidebar({ selectedModels, onModelToggle, isCollapsed, on
               // Wrap with tooltip only if not collapsed and not disabled
               if (!isCollapsed && !isDisabled) {
                 return (
-                  <ModelTooltip key={model.id} model={model} disabled={isDisabled}>
+                  <ModelTooltip key={model.id} model={{ ...model, status }} disabled={isDisabled}>
                     {modelContent}
                   </ModelTooltip>
                 );
@@ -232,6 +267,99 @@ export default function Sidebar({ selectedModels, onModelToggle, isCollapsed, on
               return modelContent;
             })}
           </fieldset>
+
+          {/* Shared system prompt */}
+          {!isCollapsed && (
+            <section className="mt-6" aria-labelledby="system-prompt-heading">
+              <h3 id="system-prompt-heading" className="text-xs font-semibold uppercase tracking-wide pro-text-muted mb-2">
+                System Prompt
+              </h3>
+              <SystemPromptEditor />
+              <p className="text-xs pro-text-muted mt-1">
+                Sent to every model. Override it per model from a response column.
+              </p>
+            </section>
+          )}
+
+          {/* Built-in tools offered to every model */}
+          {!isCollapsed && (
+            <section className="mt-6" aria-labelledby="tools-heading">
+              <h3 id="tools-heading" className="text-xs font-semibold uppercase tracking-wide pro-text-muted mb-2">
+                Tools
+              </h3>
+              <ToolPicker />
+              <p className="text-xs pro-text-muted mt-1">
+                Models can call the checked tools; calls and results show in each column.
+              </p>
+            </section>
+          )}
+
+          {/* Fitting long conversations into small context windows */}
+          {!isCollapsed && (
+            <section className="mt-6" aria-labelledby="context-heading">
+              <h3 id="context-heading" className="text-xs font-semibold uppercase tracking-wide pro-text-muted mb-2">
+                Context
+              </h3>
+              <ContextStrategyPicker />
+              <p className="text-xs pro-text-muted mt-1">
+                Applied per model when the conversation outgrows its context window; each column shows what was done.
+              </p>
+            </section>
+          )}
+
+          {/* Answers cut off by max_tokens */}
+          {!isCollapsed && (
+            <section className="mt-6" aria-labelledby="length-limit-heading">
+              <h3 id="length-limit-heading" className="text-xs font-semibold uppercase tracking-wide pro-text-muted mb-2">
+                Length Limit
+              </h3>
+              <AutoContinueSetting />
+              <p className="text-xs pro-text-muted mt-1">
+                Answers that hit max_tokens are marked &quot;Cut off&quot;; with auto-continue the model is asked for the rest.
+              </p>
+            </section>
+          )}
+
+          {/* The user's own provider keys */}
+          {!isCollapsed && (
+            <section className="mt-6" aria-labelledby="api-keys-heading">
+              <h3 id="api-keys-heading" className="text-xs font-semibold uppercase tracking-wide pro-text-muted mb-2">
+                API Keys
+              </h3>
+              <ApiKeysDialog />
+            </section>
+          )}
+
+          {/* Session budget */}
+          {!isCollapsed && (
+            <section className="mt-6" aria-labelledby="budget-heading">
+              <h3 id="budget-heading" className="text-xs font-semibold uppercase tracking-wide pro-text-muted mb-2">
+                Budget
+              </h3>
+              <SpendCapInput />
+              <p className="text-xs pro-text-muted mt-1">
+                Asks before sending a prompt whose worst-case cost would go over the cap.
+              </p>
+            </section>
+          )}
+
+          {/* Per-model generation settings */}
+          {!isCollapsed && selectedModels.length > 0 && (
+            <section className="mt-6" aria-labelledby="generation-settings-heading">
+              <h3 id="generation-settings-heading" className="text-xs font-semibold uppercase tracking-wide pro-text-muted mb-2">
+                Generation Settings
+              </h3>
+              {selectedModels.map(modelId => (
+                <GenerationSettings
+                  key={modelId}
+                  modelId={modelId}
+                  modelName={findModel(models, modelId)?.name || modelId}
+                  parameters={generationParameters[modelId] || {}}
+                  onChange={(parameters) => onParametersChange(modelId, parameters)}
+                />
+              ))}
+            </section>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,40 @@
+'use client';
+
+import { useAtom } from 'jotai';
+import { costTotalsAtom, spendCapAtom } from '../lib/atoms';
+import { formatCost } from '../lib/cost';
+
+export default function SpendCapInput() {
+  const [spendCap, setSpendCap] = useAtom(spendCapAtom);
+  const [costTotals] = useAtom(costTotalsAtom);
+
+  const handleChange = (raw: string) => {
+    const value = Number(raw);
+    setSpendCap(raw.trim() === '' || !Number.isFinite(value) || value < 0 ? null : value);
+  };
+
+  return (
+    <div>
+      <label htmlFor="spend-cap" className="flex items-center justify-between text-xs pro-text-secondary mb-1">
+        <span>Session spend cap (USD)</span>
+        {spendCap !== null && (
+          <span className={costTotals.session >= spendCap ? 'text-red-400' : 'pro-text-muted'}>
+            {formatCost(costTotals.session)} used
+            {costTotals.unpricedResponses > 0 && ` + ${costTotals.unpricedResponses} of unknown cost`}
+          </span>
+        )}
+      </label>
+      <input
+        id="spend-cap"
+        type="number"
+        min={0}
+        step={0.01}
+        value={spendCap ?? ''}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder="No cap"
+        className="pro-input w-full text-xs"
+        style={{ padding: '6px 10px', borderRadius: '8px' }}
+      />
+    </div>
+  );
+}
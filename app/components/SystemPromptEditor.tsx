@@ -0,0 +1,62 @@
+'use client';
+
+import { useAtom } from 'jotai';
+import { systemPromptAtom, systemPromptOverridesAtom } from '../lib/atoms';
+
+interface SystemPromptEditorProps {
+  modelId?: string; // Edit this model's override instead of the shared prompt
+  className?: string;
+}
+
+export default function SystemPromptEditor({ modelId, className = '' }: SystemPromptEditorProps) {
+  const [sharedPrompt, setSharedPrompt] = useAtom(systemPromptAtom);
+  const [overrides, setOverrides] = useAtom(systemPromptOverridesAtom);
+
+  const value = modelId ? overrides[modelId] ?? '' : sharedPrompt;
+  const inputId = modelId ? `system-prompt-${modelId.replace(/[^a-z0-9]/gi, '-')}` : 'system-prompt-shared';
+
+  const handleChange = (next: string) => {
+    if (!modelId) {
+      setSharedPrompt(next);
+      return;
+    }
+
+    setOverrides(prev => {
+      const updated = { ...prev };
+      if (next.trim()) {
+        updated[modelId] = next;
+      } else {
+        delete updated[modelId];
+      }
+      return updated;
+    });
+  };
+
+  return (
+    <div className={className}>
+      <label htmlFor={inputId} className="sr-only">
+        {modelId ? 'System prompt override for this model' : 'Shared system prompt for all models'}
+      </label>
+      <textarea
+        id={inputId}
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder={modelId
+          ? (sharedPrompt.trim() ? `Uses shared prompt: ${sharedPrompt.trim()}` : 'No shared prompt. Type to set one for this model only.')
+          : 'e.g. You are a concise assistant. Answer in three sentences or fewer.'}
+        rows={3}
+        className="pro-input w-full text-xs resize-y"
+        style={{ padding: '8px 10px', borderRadius: '8px' }}
+      />
+      {modelId && value.trim() && (
+        <button
+          type="button"
+          onClick={() => handleChange('')}
+          className="mt-1 text-xs pro-text-muted hover:pro-text-primary"
+        >
+          Use shared prompt
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { useAtom } from 'jotai';
+import { enabledToolsAtom } from '../lib/atoms';
+import { BUILT_IN_TOOLS } from '../lib/tools/definitions';
+
+const TOOL_LABELS: Record<string, string> = {
+  calculator: 'Calculator',
+  current_time: 'Current time',
+  validate_json: 'JSON validator',
+  search_corpus: 'Corpus search'
+};
+
+export default function ToolPicker() {
+  const [enabledTools, setEnabledTools] = useAtom(enabledToolsAtom);
+
+  const toggleTool = (name: string) => {
+    setEnabledTools(prev => (prev.includes(name) ? prev.filter(tool => tool !== name) : [...prev, name]));
+  };
+
+  return (
+    <div className="space-y-1">
+      {BUILT_IN_TOOLS.map(({ function: tool }) => (
+        <label key={tool.name} className="flex items-center gap-2 text-xs pro-text-secondary cursor-pointer" title={tool.description}>
+          <input
+            type="checkbox"
+            checked={enabledTools.includes(tool.name)}
+            onChange={() => toggleTool(tool.name)}
+            className="rounded-md border-gray-300 text-blue-600 focus:ring-blue-500 w-3.5 h-3.5"
+          />
+          <span>{TOOL_LABELS[tool.name] || tool.name}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+// Bring-your-own-key support. Users can paste their own OpenRouter and Google
+// keys under API Keys in the sidebar; the browser keeps them in localStorage
+// and sends them with each request as headers, never in a body, so they stay
+// out of request logs and cache keys. The server's own keys are the fallback
+// unless the deployment sets SERVER_API_KEY_FALLBACK=false.
+
+export type ApiKeyProvider = 'openrouter' | 'google';
+
+export type ApiKeys = Partial<Record<ApiKeyProvider, string>>;
+
+export const API_KEY_PROVIDERS: Record<ApiKeyProvider, { label: string; header: string; env: string; usedFor: string }> = {
+  openrouter: { label: 'OpenRouter', header: 'X-OpenRouter-Key', env: 'OPENROUTER_API_KEY', usedFor: 'chat models' },
+  google: { label: 'Google', header: 'X-Google-Key', env: 'GOOGLE_API_KEY', usedFor: 'the evaluator' }
+};
+
+export interface ResolvedApiKey {
+  key: string;
+  source: 'user' | 'server';
+}
+
+// Headers carrying the user's keys; blank keys are left out
+export function apiKeyHeaders(keys: ApiKeys = {}): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [provider, key] of Object.entries(keys) as [ApiKeyProvider, string | undefined][]) {
+    if (key?.trim()) headers[API_KEY_PROVIDERS[provider].header] = key.trim();
+  }
+  return headers;
+}
+
+export function serverKeyFallbackEnabled(): boolean {
+  return process.env.SERVER_API_KEY_FALLBACK !== 'false';
+}
+
+// The user's key from the request headers, else the server's unless the fallback is off
+export function resolveApiKey(provider: ApiKeyProvider, headers: Headers): ResolvedApiKey | null {
+  const userKey = headers.get(API_KEY_PROVIDERS[provider].header)?.trim();
+  if (userKey) return { key: userKey, source: 'user' };
+
+  const serverKey = serverKeyFallbackEnabled() ? process.env[API_KEY_PROVIDERS[provider].env] : undefined;
+  return serverKey ? { key: serverKey, source: 'server' } : null;
+}
+
+// "your OpenRouter API key", "the server's OPENROUTER_API_KEY"
+export function describeApiKey(provider: ApiKeyProvider, source: ResolvedApiKey['source']): string {
+  const { label, env } = API_KEY_PROVIDERS[provider];
+  return source === 'user' ? `your ${label} API key` : `the server's ${env}`;
+}
+
+// Error text for when neither the user nor the server has the key
+export function missingApiKeyMessage(provider: ApiKeyProvider): string {
+  const { label, env, usedFor } = API_KEY_PROVIDERS[provider];
+  return serverKeyFallbackEnabled()
+    ? `No ${label} API key for ${usedFor}: add yours under API Keys in the sidebar, or set ${env} on the server.`
+    : `No ${label} API key for ${usedFor}: add yours under API Keys in the sidebar. This deployment does not share its own key.`;
+}
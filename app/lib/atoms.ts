@@ -1,12 +1,70 @@
 import { atom } from 'jotai';
+import { atomWithStorage } from 'jotai/utils';
+import type { ApiKeys } from './apiKeys';
+import type { TruncationReason } from './chatEvents';
+import type { ContextPlan, ContextStrategy } from './contextPlanner';
+import type { GenerationParameters } from './generationParameters';
+import type { JsonSchema, SchemaValidation } from './jsonSchema';
+import { withFileAttachments, type ContextMessage, type ContentPart } from './messageContent';
+import { DEFAULT_MODEL_CATALOG } from './modelCatalog';
 
 // Message Interface for conversation history
 export interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  reasoning?: string; // Thinking streamed separately by reasoning models; never sent back as context
   timestamp: number;
   modelId?: string; // Only for assistant messages
+  parameters?: GenerationParameters; // Parameters the assistant message was generated with
+  stopped?: boolean; // Cut short by the user; content is the partial response
+  truncated?: TruncationReason; // Ended before the model finished; content is the partial response and can be continued
+  answeredBy?: ModelId; // Fallback model that wrote this response instead of the column's model
+  cached?: boolean; // Replayed from the chat proxy's response cache
+  toolCalls?: ToolCallRecord[]; // Tools the model called while answering, in call order
+  schemaValidation?: SchemaValidation; // Structured output mode: checked once the response ends
+  attachments?: Attachment[]; // User messages only
+}
+
+// An image attached to a user message, inlined as a data URL
+export interface ImageAttachment {
+  type: 'image';
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  dataUrl: string;
+}
+
+// A text or code file attached to a user message, embedded into its text when sent
+export interface FileAttachment {
+  type: 'file';
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  text: string;
+  tokens: number; // Estimated
+}
+
+export type Attachment = ImageAttachment | FileAttachment;
+
+// One tool call made by a model and, once it has run, its result
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: string; // Raw JSON as the model wrote it
+  result?: string;
+  error?: string; // Set when the call failed; the model still sees it as the result
+}
+
+// Token counts and stop reason reported by the provider at the end of a response
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  reasoningTokens?: number; // Included in completionTokens by providers that report it
+  totalTokens?: number;
+  finishReason?: string; // e.g. 'stop', 'length', 'content_filter'
 }
 
 // Model State Interface - Updated for conversation history
@@ -16,6 +74,14 @@ export interface ModelState {
   error: string | null;
   progress?: string | null;
   retryable?: boolean;
+  parameters?: GenerationParameters; // Parameters of the in-flight request
+  systemPrompt?: string; // System prompt the conversation was last sent with
+  usage?: TokenUsage; // Usage of the latest response, once the provider reports it
+  cost?: number; // USD cost of the latest response, from usage and catalog prices; unset when unknown
+  responseSchema?: JsonSchema; // Schema the in-flight request asked for, if any
+  notice?: string; // Shown above the column, e.g. when attachments were not sent to this model
+  contextPlan?: ContextPlan; // How the latest request's history was fitted into the context window
+  substitution?: { model: ModelId; reason: string }; // Fallback answering the latest request
   // Timing information for speed analysis
   requestStartTime?: number;
   firstTokenTime?: number;
@@ -23,6 +89,26 @@ export interface ModelState {
   responseEndTime?: number;
 }
 
+// Backend that serves a model. `model` overrides the upstream model name when
+// it differs from our catalog id; `apiKeyEnv` names the env var holding the key.
+export type ModelBackend =
+  | { type: 'openrouter'; model?: string }
+  | { type: 'openai-compatible'; baseUrl: string; apiKeyEnv?: string; model?: string }
+  | { type: 'ollama'; baseUrl?: string; model?: string }
+  | { type: 'test' };
+
+// USD per token, as OpenRouter lists them
+export interface ModelPrices {
+  prompt: number;
+  completion: number;
+}
+
+// Optional request features a model accepts; missing means unsupported
+export interface ModelCapabilities {
+  structuredOutput?: boolean; // Accepts `response_format` with a JSON Schema
+  vision?: boolean; // Accepts image parts in user messages
+}
+
 // Model Interface
 export interface Model {
   id: string;
@@ -33,102 +119,39 @@ export interface Model {
   description: string;
   strengths: string[];
   pricing: 'free' | 'paid';
+  prices?: ModelPrices; // Unknown prices are left out rather than guessed
   status: 'available' | 'rate-limited' | 'unavailable';
+  capabilities?: ModelCapabilities;
+  backend?: ModelBackend; // Defaults to OpenRouter
+  fallbacks?: ModelId[]; // Tried in order when this model is unavailable, e.g. a paid variant of a free model
+}
+
+// Live health of a model as tracked by the chat proxy's circuit breaker
+export interface ModelHealth {
+  status: Model['status'];
+  retryAt?: number; // When an open circuit lets requests through again
+  reason?: string; // Last failure that counted against the model
 }
 
-// OpenRouter Models Configuration
-export const openRouterModels: Model[] = [
-  { 
-    id: 'x-ai/grok-4-fast:free', 
-    name: 'Grok 4 Fast',
-    fullName: 'xAI Grok 4 Fast',
-    provider: 'xAI',
-    contextLength: 128000,
-    description: 'Fast and efficient AI model with strong reasoning capabilities',
-    strengths: ['Fast responses', 'Reasoning', 'Efficiency'],
-    pricing: 'free',
-    status: 'available'
-  },
-  { 
-    id: 'deepseek/deepseek-chat-v3.1:free', 
-    name: 'DeepSeek v3.1',
-    fullName: 'DeepSeek Chat v3.1',
-    provider: 'DeepSeek',
-    contextLength: 64000,
-    description: 'Advanced reasoning model with strong coding and math capabilities',
-    strengths: ['Code generation', 'Mathematical reasoning', 'Problem solving'],
-    pricing: 'free',
-    status: 'available'
-  },
-  { 
-    id: 'mistralai/mistral-small-3.2-24b-instruct:free', 
-    name: 'Mistral 3.2',
-    fullName: 'Mistral Small 3.2 24B',
-    provider: 'Mistral AI',
-    contextLength: 128000,
-    description: 'Efficient model optimized for instruction following and chat',
-    strengths: ['Instruction following', 'Multilingual', 'Efficient'],
-    pricing: 'free',
-    status: 'available'
-  },
-  { 
-    id: 'nvidia/nemotron-nano-9b-v2:free', 
-    name: 'Nemotron Nano 9B',
-    fullName: 'NVIDIA Nemotron Nano 9B v2',
-    provider: 'NVIDIA',
-    contextLength: 4096,
-    description: 'Efficient NVIDIA model optimized for speed and performance',
-    strengths: ['Speed', 'Efficiency', 'NVIDIA optimized'],
-    pricing: 'free',
-    status: 'available'
-  },
-  {
-    id: 'meta-llama/llama-3-8b-instruct',
-    name: 'Llama 3 8B',
-    fullName: 'Llama 3 8B Instruct',
-    provider: 'Meta',
-    contextLength: 8192,
-    description: 'A state-of-the-art model from Meta, known for its strong general reasoning, instruction following, and overall performance',
-    strengths: ['General reasoning', 'Instruction following', 'Strong performance'],
-    pricing: 'free',
-    status: 'available'
-  },
-  {
-    id: 'openai/gpt-oss-20b:free',
-    name: 'GPT OSS 20B',
-    fullName: 'OpenAI GPT OSS 20B',
-    provider: 'OpenAI',
-    contextLength: 8192,
-    description: 'An open-source version of GPT technology with strong general capabilities and reasoning',
-    strengths: ['General reasoning', 'Text generation', 'Versatile tasks'],
-    pricing: 'free',
-    status: 'available'
-  },
-  {
-    id: 'z-ai/glm-4.5-air:free',
-    name: 'GLM 4.5 Air',
-    fullName: 'GLM 4.5 Air',
-    provider: 'Zhipu AI',
-    contextLength: 32768,
-    description: 'A lightweight and efficient language model with strong performance across various tasks',
-    strengths: ['Efficiency', 'Multilingual', 'Fast inference'],
-    pricing: 'free',
-    status: 'available'
-  },
-  {
-    id: 'cognitivecomputations/dolphin-mistral-24b-venice-edition:free',
-    name: 'Dolphin Mistral 24B',
-    fullName: 'Dolphin Mistral 24B Venice Edition',
-    provider: 'Cognitive',
-    contextLength: 32768,
-    description: 'Advanced model with enhanced capabilities for complex reasoning and analysis',
-    strengths: ['Advanced reasoning', 'Complex analysis', 'High performance'],
-    pricing: 'free',
-    status: 'available'
-  },
-] as const;
-
-export type ModelId = (typeof openRouterModels)[number]['id'];
+// Model ids come from the runtime catalog (/api/models), so they are plain
+// strings; check them against the catalog with `findModel` before trusting them
+export type ModelId = Model['id'];
+
+// Catalog the UI renders from; starts as the bundled config/models.json and is
+// replaced by the /api/models response once it loads
+export const modelCatalogAtom = atom<Model[]>(DEFAULT_MODEL_CATALOG);
+
+// Health reported by /api/models/health, keyed by model id; models without an
+// entry have had no recent failures
+export const modelHealthAtom = atom<Record<string, ModelHealth>>({});
+
+const STATUS_SEVERITY: Model['status'][] = ['available', 'rate-limited', 'unavailable'];
+
+// Status to show for a model: the worse of its catalog status and live health
+export const getModelStatus = (model: Model, health: Record<string, ModelHealth>): Model['status'] => {
+  const live = health[model.id]?.status ?? 'available';
+  return STATUS_SEVERITY.indexOf(live) > STATUS_SEVERITY.indexOf(model.status) ? live : model.status;
+};
 
 // Evaluator Agent ID - Special identifier for the AI evaluation agent
 export const EVALUATOR_AGENT_ID = 'evaluator/gemini-2.5-flash' as const;
@@ -139,6 +162,45 @@ export type ExtendedModelId = ModelId | typeof EVALUATOR_AGENT_ID;
 // Single state atom using Map for efficient updates - now supports evaluator
 export const modelsStateAtom = atom<Map<ExtendedModelId, ModelState>>(new Map());
 
+// Shared system prompt sent to every model, plus optional per-model overrides
+export const systemPromptAtom = atom<string>('');
+export const systemPromptOverridesAtom = atom<Record<string, string>>({});
+
+// Structured output mode: the pasted JSON Schema and whether to send it
+export const structuredOutputAtom = atom<{ enabled: boolean; schema: string }>({ enabled: false, schema: '' });
+
+// Built-in tools offered to every model, by name; empty means tool calling is off
+export const enabledToolsAtom = atom<string[]>([]);
+
+// Running USD spend from reported usage: since page load, and since the last new
+// chat. Responses from models without known prices can't be added, so they are
+// counted instead
+export const costTotalsAtom = atom<{ session: number; conversation: number; unpricedResponses: number }>({
+  session: 0,
+  conversation: 0,
+  unpricedResponses: 0
+});
+
+// Optional session spend cap in USD; null means no cap
+export const spendCapAtom = atom<number | null>(null);
+
+// Ask the chat proxy for fresh answers even when it has identical ones cached
+export const bypassCacheAtom = atom<boolean>(false);
+
+// What happens to older turns that don't fit a model's context window
+export const contextStrategyAtom = atom<ContextStrategy>('summarize');
+
+// Answers cut off by max_tokens are continued automatically, up to maxRounds times each
+export const autoContinueAtom = atom<{ enabled: boolean; maxRounds: number }>({ enabled: false, maxRounds: 2 });
+
+// The user's own provider keys; they live in this browser's localStorage and nowhere else
+export const apiKeysAtom = atomWithStorage<ApiKeys>('apiKeys', {});
+
+// Resolve the system prompt a model should receive: its override wins over the shared prompt
+export const getSystemPrompt = (modelId: string, sharedPrompt: string, overrides: Record<string, string>): string => {
+  return overrides[modelId]?.trim() || sharedPrompt.trim();
+};
+
 // Helper function to get model state - now supports evaluator
 export const getModelState = (modelId: ExtendedModelId, state: Map<ExtendedModelId, ModelState>): ModelState => {
   return state.get(modelId) || { history: [], isLoading: false, error: null, progress: null, retryable: false };
@@ -149,22 +211,34 @@ export const addMessageToHistory = (
   history: Message[], 
   content: string, 
   role: 'user' | 'assistant', 
-  modelId?: string
+  modelId?: string,
+  attachments?: Attachment[]
 ): Message[] => {
   const message: Message = {
     id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     role,
     content,
     timestamp: Date.now(),
-    modelId
+    modelId,
+    ...(attachments?.length ? { attachments } : {})
   };
   return [...history, message];
 };
 
-// Helper to get conversation context for API
-export const getConversationContext = (history: Message[]): { role: string; content: string }[] => {
-  return history.map(msg => ({
-    role: msg.role,
-    content: msg.content
-  }));
+// Helper to get conversation context for API, led by the system prompt when one is set.
+// Image attachments turn a message into OpenAI-style content parts.
+export const getConversationContext = (history: Message[], systemPrompt?: string): ContextMessage[] => {
+  const context = history.map(msg => {
+    const text = withFileAttachments(msg.content, msg.attachments?.filter(attachment => attachment.type === 'file') ?? []);
+    const images = msg.attachments?.filter(attachment => attachment.type === 'image') ?? [];
+    if (images.length === 0) return { role: msg.role, content: text };
+    const parts: ContentPart[] = [
+      { type: 'text', text },
+      ...images.map(image => ({ type: 'image_url' as const, image_url: { url: image.dataUrl } }))
+    ];
+    return { role: msg.role, content: parts };
+  });
+  return systemPrompt?.trim()
+    ? [{ role: 'system', content: systemPrompt.trim() }, ...context]
+    : context;
 };
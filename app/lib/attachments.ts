@@ -0,0 +1,109 @@
+import type { Attachment, FileAttachment, ImageAttachment } from './atoms';
+import { estimateTokens } from './tokenEstimate';
+
+// Reading prompt attachments in the browser. Images become data URLs and text
+// files are read as text, so both can travel inside the chat request and be
+// kept in the conversation history.
+
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_TEXT_FILE_BYTES = 1024 * 1024;
+export const MAX_ATTACHMENTS = 8;
+
+// Text-like files that can be embedded into a prompt
+export const TEXT_FILE_EXTENSIONS = [
+  '.txt', '.md', '.markdown', '.csv', '.tsv', '.json', '.jsonl', '.yaml', '.yml', '.toml', '.xml', '.html', '.css', '.scss',
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.rb', '.go', '.rs', '.java', '.kt', '.swift',
+  '.c', '.h', '.cpp', '.hpp', '.cs', '.php', '.sh', '.sql', '.ini', '.log'
+];
+
+// What the file picker offers
+export const ATTACHMENT_ACCEPT = [...IMAGE_MIME_TYPES, ...TEXT_FILE_EXTENSIONS].join(',');
+
+const isTextFile = (file: File): boolean => {
+  const name = file.name.toLowerCase();
+  return file.type.startsWith('text/') || TEXT_FILE_EXTENSIONS.some(extension => name.endsWith(extension));
+};
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export async function readImageAttachment(file: File): Promise<ImageAttachment> {
+  if (!IMAGE_MIME_TYPES.includes(file.type)) {
+    throw new Error(`${file.name || 'File'} is not a supported image (PNG, JPEG, WebP or GIF)`);
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new Error(`${file.name || 'Image'} is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+  }
+
+  return {
+    type: 'image',
+    id: createId(),
+    name: file.name || 'pasted-image',
+    mimeType: file.type,
+    size: file.size,
+    dataUrl: await readAsDataUrl(file)
+  };
+}
+
+export async function readTextAttachment(file: File): Promise<FileAttachment> {
+  if (file.size > MAX_TEXT_FILE_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_TEXT_FILE_BYTES / 1024 / 1024} MB`);
+  }
+
+  const text = await file.text();
+  if (text.includes('\u0000')) {
+    throw new Error(`${file.name} looks like a binary file`);
+  }
+
+  return {
+    type: 'file',
+    id: createId(),
+    name: file.name,
+    mimeType: file.type || 'text/plain',
+    size: file.size,
+    text,
+    tokens: estimateTokens(text)
+  };
+}
+
+/**
+ * Read dropped, pasted or picked files, keeping the ones that can be attached.
+ * Rejections come back as messages for the input to show.
+ */
+export async function readAttachments(files: File[], existingCount: number): Promise<{ attachments: Attachment[]; errors: string[] }> {
+  const attachments: Attachment[] = [];
+  const errors: string[] = [];
+
+  for (const file of files) {
+    if (existingCount + attachments.length >= MAX_ATTACHMENTS) {
+      errors.push(`At most ${MAX_ATTACHMENTS} attachments per message`);
+      break;
+    }
+    try {
+      if (IMAGE_MIME_TYPES.includes(file.type)) {
+        attachments.push(await readImageAttachment(file));
+      } else if (isTextFile(file)) {
+        attachments.push(await readTextAttachment(file));
+      } else {
+        errors.push(`${file.name || 'File'} is not an image or a text file`);
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : `Could not attach ${file.name}`);
+    }
+  }
+  return { attachments, errors };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,94 @@
+import type { ModelId, TokenUsage } from './atoms';
+import type { ContextPlan } from './contextPlanner';
+
+// The event protocol of /api/chat-proxy, shared by the route and the client.
+// Every event has a fixed type as its SSE event name and a JSON payload; events
+// about one model name it in `modelId`, so model ids never end up in event names.
+
+// Bump on any incompatible change to the types or payloads below
+export const CHAT_PROTOCOL_VERSION = 2;
+
+// Response header announcing the version, so a stale client can tell before parsing
+export const CHAT_PROTOCOL_HEADER = 'X-Chat-Protocol';
+
+// Why an answer ended before the model finished it
+export type TruncationReason = 'stalled' | 'length';
+
+interface ModelEvent {
+  modelId: ModelId;
+  cached?: boolean; // Replayed from the response cache
+}
+
+export interface ChatEventPayloads {
+  // Per connection, never buffered; the first one of a connection carries the request id
+  heartbeat: {
+    timestamp: number;
+    protocolVersion?: number;
+    requestId?: string;
+    models?: number;
+    resumedFrom?: number;
+    active?: boolean;
+    timeSinceActivity?: number;
+    completed?: boolean; // Every model has finished; the last frame of a connection
+  };
+  chunk: ModelEvent & { token: string; timestamp: number };
+  reasoning: ModelEvent & { token: string; timestamp: number };
+  'tool-call': ModelEvent & { id: string; name: string; argumentsDelta: string; timestamp: number };
+  'tool-result': ModelEvent & { id: string; name: string; result: string; error?: string; timestamp: number };
+  progress: ModelEvent & {
+    status?: 'connecting' | 'queued' | 'streaming' | 'tool' | 'continuing';
+    message: string;
+    waitMs?: number;
+    reconnecting?: boolean; // Raised by the client while it restores a dropped connection
+  };
+  error: ModelEvent & {
+    message: string;
+    retryable: boolean;
+    retryAt?: number;
+    timestamp?: string;
+    reconnectionFailed?: boolean; // Raised by the client when a dropped stream can't be resumed
+  };
+  // The model's last event, unless it ended with an error
+  end: ModelEvent & {
+    message: string;
+    stopped?: boolean;
+    truncated?: TruncationReason; // The answer is partial and can be continued
+    stats?: { duration: number; chunks: number; steps?: number; continuations?: number };
+    maxTokens?: number; // max_tokens the last call was sent with, after fitting it to the serving model's window
+  };
+  usage: ModelEvent & TokenUsage;
+  context: ModelEvent & ContextPlan;
+  fallback: ModelEvent & { requestedModel: ModelId; model: ModelId; reason: string; timestamp: number };
+}
+
+export type ChatEventType = keyof ChatEventPayloads;
+export type ModelEventType = Exclude<ChatEventType, 'heartbeat'>;
+
+export type ChatEvent = { [T in ChatEventType]: { type: T; data: ChatEventPayloads[T] } }[ChatEventType];
+
+// Payload of a model event as the route builds it, before the model id is added
+export type ModelEventPayload<T extends ModelEventType> = Omit<ChatEventPayloads[T], 'modelId'>;
+
+const CHAT_EVENT_TYPES: ReadonlySet<string> = new Set<ChatEventType>([
+  'heartbeat', 'chunk', 'reasoning', 'tool-call', 'tool-result', 'progress', 'error', 'end', 'usage', 'context', 'fallback'
+]);
+
+/**
+ * Decode one SSE event of the protocol. Returns null for event types this
+ * version doesn't know and for payloads that aren't JSON objects, or that lack
+ * the model id a model event needs.
+ */
+export function parseChatEvent(event: string, data: string): ChatEvent | null {
+  if (!CHAT_EVENT_TYPES.has(event)) return null;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return null;
+  if (event !== 'heartbeat' && typeof (payload as { modelId?: unknown }).modelId !== 'string') return null;
+
+  return { type: event, data: payload } as ChatEvent;
+}
@@ -0,0 +1,133 @@
+import type { ModelHealth } from './atoms';
+
+// Per-model circuit breakers for the chat proxy. Rate limits, missing models and
+// timeouts count as failures; enough of them in a short window open the circuit
+// and requests fail fast until the cooldown ends. The first request after that
+// is a trial: success closes the circuit, failure reopens it for twice as long.
+
+export type FailureKind = 'rate-limit' | 'not-found' | 'timeout';
+
+const FAILURE_THRESHOLD = 3; // Failures within the window that open the circuit
+const FAILURE_WINDOW_MS = 60000;
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+const TRIAL_RETRY_MS = 10000; // Suggested wait while a trial request is in flight
+
+// How long each kind of failure keeps the circuit open the first time
+const BASE_COOLDOWN_MS: Record<FailureKind, number> = {
+  'rate-limit': 60000,
+  'not-found': 5 * 60 * 1000,
+  'timeout': 30000
+};
+
+const FAILURE_REASONS: Record<FailureKind, string> = {
+  'rate-limit': 'Rate limited by the provider',
+  'not-found': 'Model not found at the provider',
+  'timeout': 'Requests are timing out'
+};
+
+interface BreakerState {
+  state: 'closed' | 'open' | 'half-open';
+  failures: number[]; // Timestamps of recent failures
+  lastFailure?: FailureKind;
+  openUntil: number;
+  consecutiveOpens: number; // Doubles the cooldown each time a trial fails
+  trialInFlight: boolean;
+}
+
+export class CircuitBreaker {
+  private breakers = new Map<string, BreakerState>();
+
+  private get(modelId: string): BreakerState {
+    let breaker = this.breakers.get(modelId);
+    if (!breaker) {
+      breaker = { state: 'closed', failures: [], openUntil: 0, consecutiveOpens: 0, trialInFlight: false };
+      this.breakers.set(modelId, breaker);
+    }
+    if (breaker.state === 'open' && Date.now() >= breaker.openUntil) {
+      breaker.state = 'half-open';
+      breaker.trialInFlight = false;
+    }
+    return breaker;
+  }
+
+  /**
+   * Whether a request may go upstream now. In the half-open state only one
+   * trial request is let through at a time.
+   */
+  tryAcquire(modelId: string): { allowed: true; trial: boolean } | { allowed: false; retryAt: number; reason: string } {
+    const breaker = this.get(modelId);
+
+    if (breaker.state === 'open') {
+      return { allowed: false, retryAt: breaker.openUntil, reason: FAILURE_REASONS[breaker.lastFailure ?? 'timeout'] };
+    }
+    if (breaker.state === 'half-open' && breaker.trialInFlight) {
+      return { allowed: false, retryAt: Date.now() + TRIAL_RETRY_MS, reason: 'Checking whether the model has recovered' };
+    }
+
+    const trial = breaker.state === 'half-open';
+    if (trial) {
+      breaker.trialInFlight = true;
+    }
+    return { allowed: true, trial };
+  }
+
+  recordSuccess(modelId: string): void {
+    const breaker = this.get(modelId);
+    breaker.state = 'closed';
+    breaker.failures = [];
+    breaker.lastFailure = undefined;
+    breaker.consecutiveOpens = 0;
+    breaker.trialInFlight = false;
+  }
+
+  recordFailure(modelId: string, kind: FailureKind): void {
+    const breaker = this.get(modelId);
+    const now = Date.now();
+    breaker.lastFailure = kind;
+    breaker.failures = [...breaker.failures.filter(time => now - time < FAILURE_WINDOW_MS), now];
+
+    const trialFailed = breaker.state === 'half-open';
+    if (trialFailed || breaker.failures.length >= FAILURE_THRESHOLD) {
+      const cooldown = Math.min(BASE_COOLDOWN_MS[kind] * Math.pow(2, breaker.consecutiveOpens), MAX_COOLDOWN_MS);
+      breaker.state = 'open';
+      breaker.openUntil = now + cooldown;
+      breaker.consecutiveOpens++;
+      breaker.trialInFlight = false;
+      console.warn(`Circuit opened for ${modelId} (${kind}) until ${new Date(breaker.openUntil).toISOString()}`);
+    }
+  }
+
+  // A trial request that ended without a verdict (e.g. stopped by the user)
+  releaseTrial(modelId: string): void {
+    const breaker = this.breakers.get(modelId);
+    if (breaker) {
+      breaker.trialInFlight = false;
+    }
+  }
+
+  getHealth(modelId: string): ModelHealth {
+    const breaker = this.get(modelId);
+    if (breaker.state !== 'open') {
+      return { status: 'available' };
+    }
+    return {
+      status: breaker.lastFailure === 'rate-limit' ? 'rate-limited' : 'unavailable',
+      retryAt: breaker.openUntil,
+      reason: FAILURE_REASONS[breaker.lastFailure ?? 'timeout']
+    };
+  }
+
+  // Health of every model that has failed recently
+  snapshot(): Record<string, ModelHealth> {
+    const health: Record<string, ModelHealth> = {};
+    for (const modelId of this.breakers.keys()) {
+      health[modelId] = this.getHealth(modelId);
+    }
+    return health;
+  }
+}
+
+// Route handlers are bundled separately, so the singleton lives on globalThis
+const globalForBreaker = globalThis as unknown as { modelCircuitBreaker?: CircuitBreaker };
+
+export const circuitBreaker = globalForBreaker.modelCircuitBreaker ??= new CircuitBreaker();
@@ -1,5 +1,6 @@
-import { SSEConnectionManager, SSEEventHandler, SSEConnectionOptions, SSEEventData } from './sseManager';
+import { SSEConnectionManager, SSEEventHandler, SSEConnectionOptions, SSEEventData, ChatRequestOptions } from './sseManager';
 import { ModelId } from './atoms';
+import type { ContextMessage } from './messageContent';
 
 export interface ConnectionPoolOptions {
   maxConcurrentConnections?: number;
@@ -11,6 +12,7 @@ export interface PooledConnection {
   id: string;
   manager: SSEConnectionManager;
   models: ModelId[];
+  requestOptions: ChatRequestOptions;
   status: 'connecting' | 'connected' | 'disconnected' | 'error';
   createdAt: number;
 }
@@ -33,7 +35,6 @@ export class ConnectionPool {
         timeout: 60000,
         heartbeatInterval: 10000,
         reconnectOnDrop: true,
-        bufferSize: 8192,
         performanceMonitoring: true
       },
       ...options
@@ -41,8 +42,9 @@ export class ConnectionPool {
   }
 
   async createConnection(
-    messages: { role: string; content: string }[] | string, 
+    messages: ContextMessage[] | string, 
     models: ModelId[], 
+    requestOptions: ChatRequestOptions = {},
     connectionId?: string
   ): Promise<string> {
     const id = connectionId || this.generateConnectionId();
@@ -67,6 +69,7 @@ export class ConnectionPool {
       id,
       manager,
       models,
+      requestOptions,
       status: 'connecting',
       createdAt: Date.now()
     };
@@ -79,7 +82,7 @@ export class ConnectionPool {
       if (typeof messages === 'string') {
         await manager.connect(messages, models);
       } else {
-        await manager.connectWithMessages(messages, models);
+        await manager.connectWithMessages(messages, models, requestOptions);
       }
       return id;
     } catch (error) {
@@ -88,11 +91,38 @@ export class ConnectionPool {
     }
   }
 
+  // Send a follow-up request on a connection that has finished streaming, so
+  // it doesn't take another slot; one that is gone or still busy with other
+  // models can't carry it, and a new connection is opened instead
+  async sendOnConnection(
+    connectionId: string | null,
+    messages: ContextMessage[],
+    models: ModelId[],
+    requestOptions: ChatRequestOptions = {}
+  ): Promise<string> {
+    const connection = connectionId ? this.connections.get(connectionId) : undefined;
+    if (!connection || connection.status !== 'disconnected') {
+      return this.createConnection(messages, models, requestOptions);
+    }
+
+    connection.models = models;
+    connection.requestOptions = requestOptions;
+    connection.status = 'connecting';
+    try {
+      await connection.manager.connectWithMessages(messages, models, requestOptions);
+      return connection.id;
+    } catch (error) {
+      this.removeConnection(connection.id);
+      throw error;
+    }
+  }
+
+  // The connection's request is abandoned, so the server stops its models too
   async closeConnection(connectionId: string): Promise<void> {
     const connection = this.connections.get(connectionId);
     if (!connection) return;
 
-    connection.manager.disconnect();
+    connection.manager.cancel();
     this.removeConnection(connectionId);
   }
 
@@ -103,6 +133,13 @@ export class ConnectionPool {
     await Promise.all(closePromises);
   }
 
+  // Stop a model on whichever connection is streaming it; the others keep going
+  async stopModel(modelId: ModelId): Promise<void> {
+    const connections = Array.from(this.connections.values())
+      .filter(conn => conn.models.includes(modelId));
+    await Promise.all(connections.map(conn => conn.manager.stopModel(modelId)));
+  }
+
   getConnection(connectionId: string): PooledConnection | undefined {
     return this.connections.get(connectionId);
   }
@@ -185,10 +222,10 @@ export class ConnectionPool {
     connection.status = status as 'connecting' | 'connected' | 'disconnected' | 'error';
     this.globalStatusHandler(connectionId, status);
 
-    // Clean up completed connections
+    // Clean up completed connections, unless a follow-up request has reused them since
     if (status === 'disconnected' || status === 'error') {
       setTimeout(() => {
-        if (this.connections.has(connectionId)) {
+        if (this.connections.get(connectionId)?.status === status) {
           this.removeConnection(connectionId);
         }
       }, 5000); // Keep for 5 seconds for debugging
@@ -219,7 +256,7 @@ export class ConnectionPool {
   }
 
   // Force reconnection for a specific connection
-  async forceReconnect(connectionId: string, messages: { role: string; content: string }[] | string): Promise<void> {
+  async forceReconnect(connectionId: string, messages: ContextMessage[] | string): Promise<void> {
     const connection = this.connections.get(connectionId);
     if (!connection) {
       throw new Error(`Connection ${connectionId} not found`);
@@ -229,7 +266,7 @@ export class ConnectionPool {
       if (typeof messages === 'string') {
         await connection.manager.forceReconnect(messages, connection.models);
       } else {
-        await connection.manager.forceReconnectWithMessages(messages, connection.models);
+        await connection.manager.forceReconnectWithMessages(messages, connection.models, connection.requestOptions);
       }
     } catch (error) {
       console.error(`Failed to reconnect ${connectionId}:`, error);
@@ -0,0 +1,157 @@
+import { contentText, type MessageContent } from './messageContent';
+import { estimateMessagesTokens, formatTokenCount } from './tokenEstimate';
+
+// Fitting a conversation into one model's context window. The system prompt and
+// the latest turns are always kept; older turns are dropped, or folded into a
+// short digest of what was said, until the estimate fits.
+
+export type ContextStrategy = 'truncate' | 'summarize';
+
+export interface ContextPlan {
+  strategy: 'full' | 'truncated' | 'summarized';
+  contextLength: number;
+  estimatedTokens: number; // Prompt tokens after planning
+  droppedMessages: number; // Older messages left out or folded into the digest
+  maxTokens: number; // Completion tokens to request, so prompt and completion fit together
+}
+
+interface PlannableMessage {
+  role: string;
+  content: MessageContent;
+}
+
+// Completion room kept free when the request sets no max_tokens
+const DEFAULT_COMPLETION_RESERVE = 1024;
+// Token estimates are approximate; leave headroom so the provider doesn't reject the prompt
+const ESTIMATE_HEADROOM = 0.9;
+// Share of the room for turns that a digest may take from the recent turns
+const DIGEST_SHARE = 0.25;
+// Characters kept per turn in the digest, tried longest first
+const DIGEST_CLIP_LENGTHS = [400, 200, 100, 50];
+
+const clip = (text: string, length: number): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length <= length ? flat : `${flat.slice(0, length - 1)}…`;
+};
+
+function digestMessage<T extends PlannableMessage>(dropped: T[], clipLength: number, maxLines = Infinity): T {
+  const lines = dropped
+    .filter(message => message.role === 'user' || message.role === 'assistant')
+    .map(message => `- ${message.role === 'user' ? 'User' : 'Assistant'}: ${clip(contentText(message.content), clipLength)}`);
+  return {
+    role: 'system',
+    content: `Summary of the earlier conversation, shortened to fit the context window:\n${lines.slice(-maxLines).join('\n')}`
+  } as T;
+}
+
+// Digest of `dropped` within `budget` tokens: shorter lines first, then only the latest ones
+function fitDigest<T extends PlannableMessage>(dropped: T[], budget: number): T | null {
+  const fits = (message: T) => estimateMessagesTokens([message]) <= budget;
+  for (const clipLength of DIGEST_CLIP_LENGTHS) {
+    const digest = digestMessage(dropped, clipLength);
+    if (fits(digest)) return digest;
+  }
+  const shortest = DIGEST_CLIP_LENGTHS[DIGEST_CLIP_LENGTHS.length - 1];
+  for (let lines = dropped.length - 1; lines > 0; lines--) {
+    const digest = digestMessage(dropped, shortest, lines);
+    if (fits(digest)) return digest;
+  }
+  return null;
+}
+
+// Index of the oldest turn to keep so the kept turns fit `budget`; the last turn is always kept
+function keepRecent(turns: PlannableMessage[], budget: number): { start: number; used: number } {
+  let start = turns.length - 1;
+  let used = estimateMessagesTokens(turns.slice(start));
+  while (start > 0) {
+    const tokens = estimateMessagesTokens([turns[start - 1]]);
+    if (used + tokens > budget) break;
+    used += tokens;
+    start--;
+  }
+  // Don't open on an assistant reply whose question was dropped
+  while (start < turns.length - 1 && turns[start].role !== 'user') {
+    used -= estimateMessagesTokens([turns[start]]);
+    start++;
+  }
+  return { start, used };
+}
+
+// Prompt tokens a model can take while leaving room for its completion
+export function contextBudget(contextLength: number, maxTokens?: number): number {
+  const reserve = Math.min(maxTokens ?? DEFAULT_COMPLETION_RESERVE, Math.floor(contextLength / 4));
+  return Math.floor((contextLength - reserve) * ESTIMATE_HEADROOM);
+}
+
+/**
+ * Completion tokens to request after a prompt of `promptTokens` (estimated):
+ * `maxTokens` or less, so the two never add up to more than the window. The
+ * estimate is taken to run up to the headroom low. At least 1, for prompts
+ * that fill the window on their own.
+ */
+export function completionBudget(contextLength: number, promptTokens: number, maxTokens?: number): number {
+  const room = Math.max(1, Math.floor(contextLength - promptTokens / ESTIMATE_HEADROOM));
+  return Math.min(maxTokens ?? room, room);
+}
+
+/**
+ * Plan the messages to send a model with `contextLength` tokens of context,
+ * leaving room for a `maxTokens` completion. The plan's `maxTokens` is what to
+ * actually request, which may be less. The last message is kept even if it
+ * alone is over budget; the client refuses to send those.
+ */
+export function planContext<T extends PlannableMessage>(
+  messages: T[],
+  contextLength: number,
+  options: { maxTokens?: number; strategy?: ContextStrategy } = {}
+): { messages: T[]; plan: ContextPlan } {
+  const budget = contextBudget(contextLength, options.maxTokens);
+  const total = estimateMessagesTokens(messages);
+  const withCompletion = (plan: Omit<ContextPlan, 'maxTokens'>): ContextPlan => ({
+    ...plan,
+    maxTokens: completionBudget(contextLength, plan.estimatedTokens, options.maxTokens)
+  });
+
+  if (total <= budget) {
+    return { messages, plan: withCompletion({ strategy: 'full', contextLength, estimatedTokens: total, droppedMessages: 0 }) };
+  }
+
+  const systemMessages = messages.filter(message => message.role === 'system');
+  const turns = messages.filter(message => message.role !== 'system');
+  const turnBudget = budget - estimateMessagesTokens(systemMessages);
+
+  const truncated = keepRecent(turns, turnBudget);
+
+  // Summarizing gives up some recent turns to make room for the digest
+  if (options.strategy === 'summarize' && truncated.start > 0) {
+    const { start, used } = keepRecent(turns, Math.floor(turnBudget * (1 - DIGEST_SHARE)));
+    const digest = fitDigest(turns.slice(0, start), turnBudget - used);
+    if (digest) {
+      const planned = [...systemMessages, digest, ...turns.slice(start)];
+      return {
+        messages: planned,
+        plan: withCompletion({ strategy: 'summarized', contextLength, estimatedTokens: estimateMessagesTokens(planned), droppedMessages: start })
+      };
+    }
+  }
+
+  const planned = [...systemMessages, ...turns.slice(truncated.start)];
+  return {
+    messages: planned,
+    plan: withCompletion({ strategy: 'truncated', contextLength, estimatedTokens: estimateMessagesTokens(planned), droppedMessages: truncated.start })
+  };
+}
+
+// "Full history (~2.1K of 128.0K tokens)", "6 older messages dropped to fit 4.1K tokens"
+export function describeContextPlan(plan: ContextPlan): string {
+  const window = formatTokenCount(plan.contextLength);
+  const count = `${plan.droppedMessages} older message${plan.droppedMessages !== 1 ? 's' : ''}`;
+  switch (plan.strategy) {
+    case 'full':
+      return `Full history (~${formatTokenCount(plan.estimatedTokens)} of ${window} tokens)`;
+    case 'truncated':
+      return `${count} dropped to fit ${window} tokens`;
+    case 'summarized':
+      return `${count} summarized to fit ${window} tokens`;
+  }
+}
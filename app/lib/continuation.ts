@@ -0,0 +1,17 @@
+import type { ContextMessage } from './messageContent';
+
+// Picking up an answer that was cut off. The partial answer stays the last
+// assistant turn and a short user turn asks the model to carry on; whatever it
+// sends back is appended to the partial answer, so the conversation keeps one
+// assistant message and the continuation turn is never shown.
+
+// Most continuation rounds a request may ask for when answers hit max_tokens
+export const MAX_CONTINUATIONS = 5;
+
+export const CONTINUE_PROMPT =
+  'Your previous reply was cut off. Continue exactly where it stopped, without repeating anything and without any preamble.';
+
+// The context to send to continue the answer that ends `context`
+export function continuationContext<T extends ContextMessage>(context: T[]): T[] {
+  return [...context, { role: 'user', content: CONTINUE_PROMPT } as T];
+}
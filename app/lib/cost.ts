@@ -0,0 +1,69 @@
+import type { Model, ModelPrices, TokenUsage } from './atoms';
+import type { GenerationParameters } from './generationParameters';
+import { resolveGenerationParameters } from './generationParameters';
+import type { MessageContent } from './messageContent';
+import { findModel } from './modelCatalog';
+import { estimateMessagesTokens } from './tokenEstimate';
+
+// Cost estimates from catalog prices (USD per token). Actual costs come from the
+// usage the provider reports; fan-out estimates are a worst case used by the
+// spend cap before anything is sent.
+
+/**
+ * Cost of a finished response. Returns undefined when the model has no known
+ * prices or the provider did not report token counts.
+ */
+export function estimateResponseCost(usage: TokenUsage | undefined, prices: ModelPrices | undefined): number | undefined {
+  if (!usage || !prices) return undefined;
+  if (usage.promptTokens === undefined && usage.completionTokens === undefined) return undefined;
+  return (usage.promptTokens ?? 0) * prices.prompt + (usage.completionTokens ?? 0) * prices.completion;
+}
+
+/**
+ * Upper bound for sending `messages` to every model: the whole prompt plus a
+ * full `max_tokens` completion each, for every one of `rounds` requests (tool
+ * steps and continuations resend the prompt along with what came before, so
+ * those run a little over). A model is priced as the most expensive of itself
+ * and its fallbacks in `catalog`, since any of them may end up serving it.
+ * Candidates without prices add nothing; `findUnpricedModels` names the
+ * models they leave uncovered.
+ */
+export function estimateFanOutCost(
+  models: Model[],
+  catalog: Model[],
+  messagesFor: (model: Model) => { content: MessageContent }[],
+  parametersFor: (model: Model) => GenerationParameters | undefined,
+  rounds: number = 1 // Requests per model: tool steps times continuation rounds
+): number {
+  return models.reduce((total, model) => {
+    const candidates = [model, ...(model.fallbacks ?? []).map(id => findModel(catalog, id))];
+    const prices = candidates.flatMap(candidate => (candidate?.prices ? [candidate.prices] : []));
+    if (prices.length === 0) return total;
+
+    const promptTokens = estimateMessagesTokens(messagesFor(model));
+    const completionTokens = resolveGenerationParameters(parametersFor(model)).max_tokens ?? 0;
+    const requestCost = Math.max(...prices.map(price => promptTokens * price.prompt + completionTokens * price.completion));
+    return total + rounds * requestCost;
+  }, 0);
+}
+
+// Models the fan-out estimate can't fully cover: the model itself or one of its
+// fallbacks has no known prices, so it may answer at an unknown cost
+export function findUnpricedModels(models: Model[], catalog: Model[]): Model[] {
+  return models.filter(model =>
+    !model.prices || (model.fallbacks ?? []).some(id => !findModel(catalog, id)?.prices)
+  );
+}
+
+// "$0.0042", "$1.27"; sub-cent amounts keep enough digits to be meaningful
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  if (cost < 0.01) return `$${cost.toPrecision(2)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+// "$0.15 / $0.60 per 1M tokens"
+export function formatPrices(prices: ModelPrices): string {
+  const perMillion = (price: number) => `$${Number((price * 1_000_000).toPrecision(3))}`;
+  return `${perMillion(prices.prompt)} / ${perMillion(prices.completion)} per 1M tokens`;
+}
@@ -0,0 +1,74 @@
+// Per-model generation parameters, shared by the settings panel and the chat proxy.
+// Names follow the OpenAI request body so they pass straight through to providers.
+
+export interface GenerationParameters {
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string[];
+  seed?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+}
+
+type NumericParameter = Exclude<keyof GenerationParameters, 'stop'>;
+
+export const DEFAULT_GENERATION_PARAMETERS: GenerationParameters = {
+  temperature: 0.7,
+  max_tokens: 4000 // Reasonable limit
+};
+
+// Accepted ranges for numeric parameters; `integer` values are rounded
+export const PARAMETER_LIMITS: Record<NumericParameter, { min: number; max: number; step: number; integer?: boolean }> = {
+  temperature: { min: 0, max: 2, step: 0.1 },
+  top_p: { min: 0, max: 1, step: 0.05 },
+  max_tokens: { min: 1, max: 32000, step: 1, integer: true },
+  seed: { min: 0, max: 2147483647, step: 1, integer: true },
+  frequency_penalty: { min: -2, max: 2, step: 0.1 },
+  presence_penalty: { min: -2, max: 2, step: 0.1 }
+};
+
+const MAX_STOP_SEQUENCES = 4;
+
+/**
+ * Merge user overrides onto the defaults, dropping anything malformed and
+ * clamping numbers into their accepted range. Used on both sides so the
+ * parameters shown in a column are exactly the ones the proxy sent.
+ */
+export function resolveGenerationParameters(overrides?: GenerationParameters): GenerationParameters {
+  const resolved: GenerationParameters = { ...DEFAULT_GENERATION_PARAMETERS };
+  if (!overrides || typeof overrides !== 'object') return resolved;
+
+  for (const key of Object.keys(PARAMETER_LIMITS) as NumericParameter[]) {
+    const value = overrides[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+
+    const { min, max, integer } = PARAMETER_LIMITS[key];
+    const clamped = Math.min(max, Math.max(min, value));
+    resolved[key] = integer ? Math.round(clamped) : clamped;
+  }
+
+  if (Array.isArray(overrides.stop)) {
+    const stop = overrides.stop
+      .filter((sequence): sequence is string => typeof sequence === 'string' && sequence.length > 0)
+      .slice(0, MAX_STOP_SEQUENCES);
+    if (stop.length > 0) {
+      resolved.stop = stop;
+    }
+  }
+
+  return resolved;
+}
+
+// Compact one-line summary, e.g. "temp 0.7 · max 4000 · seed 42"
+export function formatGenerationParameters(parameters: GenerationParameters): string {
+  const parts: string[] = [];
+  if (parameters.temperature !== undefined) parts.push(`temp ${parameters.temperature}`);
+  if (parameters.top_p !== undefined) parts.push(`top_p ${parameters.top_p}`);
+  if (parameters.max_tokens !== undefined) parts.push(`max ${parameters.max_tokens}`);
+  if (parameters.frequency_penalty !== undefined) parts.push(`freq ${parameters.frequency_penalty}`);
+  if (parameters.presence_penalty !== undefined) parts.push(`pres ${parameters.presence_penalty}`);
+  if (parameters.seed !== undefined) parts.push(`seed ${parameters.seed}`);
+  if (parameters.stop?.length) parts.push(`stop ${parameters.stop.map(s => JSON.stringify(s)).join(', ')}`);
+  return parts.join(' · ');
+}
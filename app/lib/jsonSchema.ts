@@ -0,0 +1,296 @@
+// JSON Schema support for structured output mode: pulling JSON out of a model
+// response and validating it. Covers the draft 2020-12 keywords extraction
+// schemas actually use, including local `$ref`s. Applicators it can't check
+// are rejected when the schema is entered, since ignoring them would pass
+// responses they should fail; annotations and other unknown keywords are ignored.
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface SchemaError {
+  path: string; // JSON Pointer into the response, '' for the root
+  message: string;
+}
+
+export interface SchemaValidation {
+  valid: boolean;
+  errors: SchemaError[];
+}
+
+const MAX_ERRORS = 20;
+
+// Deeper than this, a chain of $refs is taken to be a cycle
+const MAX_REF_DEPTH = 50;
+
+// Applicators whose checks validateValue doesn't implement
+const UNSUPPORTED_KEYWORDS = [
+  'if', 'then', 'else', 'dependentSchemas', 'dependentRequired', 'dependencies', 'patternProperties',
+  'propertyNames', 'unevaluatedProperties', 'unevaluatedItems', 'contains', 'additionalItems',
+  '$dynamicRef', '$recursiveRef'
+];
+
+// Where subschemas sit in a schema, for walking it
+const SUBSCHEMA_KEYWORDS = ['items', 'additionalProperties', 'not'];
+const SUBSCHEMA_MAP_KEYWORDS = ['properties', '$defs', 'definitions'];
+const SUBSCHEMA_LIST_KEYWORDS = ['prefixItems', 'allOf', 'anyOf', 'oneOf'];
+
+// The subschema a local reference such as `#/$defs/address` points to, or undefined
+function resolveRef(root: JsonSchema, ref: string): unknown {
+  if (!ref.startsWith('#')) return undefined;
+  let pointer: string;
+  try {
+    pointer = decodeURIComponent(ref.slice(1));
+  } catch {
+    return undefined;
+  }
+  if (pointer === '') return root;
+  if (!pointer.startsWith('/')) return undefined;
+
+  let target: unknown = root;
+  for (const token of pointer.slice(1).split('/')) {
+    const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (!target || typeof target !== 'object' || !Object.hasOwn(target, key)) return undefined;
+    target = (target as Record<string, unknown>)[key];
+  }
+  return target;
+}
+
+const isSchemaObject = (schema: unknown): schema is Record<string, unknown> =>
+  Boolean(schema) && typeof schema === 'object' && !Array.isArray(schema);
+
+// The subschemas directly inside `s`, with their locations
+function subschemasOf(s: Record<string, unknown>, location: string): [string, unknown][] {
+  const found: [string, unknown][] = [];
+  for (const name of SUBSCHEMA_KEYWORDS) {
+    if (s[name] !== undefined) found.push([`${location}/${name}`, s[name]]);
+  }
+  for (const name of SUBSCHEMA_MAP_KEYWORDS) {
+    const map = s[name];
+    if (!isSchemaObject(map)) continue;
+    for (const [key, subschema] of Object.entries(map)) found.push([`${location}/${name}/${escapePointer(key)}`, subschema]);
+  }
+  for (const name of SUBSCHEMA_LIST_KEYWORDS) {
+    const list = s[name];
+    if (!Array.isArray(list)) continue;
+    list.forEach((subschema, index) => found.push([`${location}/${name}/${index}`, subschema]));
+  }
+  return found;
+}
+
+// The first problem that keeps the schema from being checked faithfully, if any
+function findUnsupported(schema: unknown, root: JsonSchema, location: string): string | null {
+  if (!isSchemaObject(schema)) return null;
+  const s = schema;
+
+  const keyword = UNSUPPORTED_KEYWORDS.find(name => Object.hasOwn(s, name));
+  if (keyword) return `"${keyword}" is not supported (at ${location || '#'})`;
+  if (Array.isArray(s.items)) {
+    return `"items" as an array (draft-07 tuples) is not supported; use "prefixItems" (at ${location || '#'})`;
+  }
+  if (s.$ref !== undefined) {
+    if (typeof s.$ref !== 'string' || resolveRef(root, s.$ref) === undefined) {
+      return `$ref ${JSON.stringify(s.$ref)} can't be resolved; only local references such as "#/$defs/name" are supported (at ${location || '#'})`;
+    }
+  }
+
+  for (const [subLocation, subschema] of subschemasOf(s, location)) {
+    const problem = findUnsupported(subschema, root, subLocation);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+// Whether every object in the schema closes its properties and requires all of them
+function closesEveryObject(schema: unknown): boolean {
+  if (!isSchemaObject(schema)) return true;
+  if (schema.type === 'object' || isSchemaObject(schema.properties)) {
+    const properties = Object.keys(isSchemaObject(schema.properties) ? schema.properties : {});
+    const required = Array.isArray(schema.required) ? schema.required : [];
+    if (schema.additionalProperties !== false || !properties.every(key => required.includes(key))) return false;
+  }
+  return subschemasOf(schema, '').every(([, subschema]) => closesEveryObject(subschema));
+}
+
+/**
+ * Whether OpenAI-style strict mode accepts the schema: an object at the root,
+ * and every object with `additionalProperties: false` and all of its
+ * properties required. Strict mode rejects any other schema outright, so
+ * those are sent non-strict.
+ */
+export function isStrictSchema(schema: JsonSchema): boolean {
+  return schema.type === 'object' && closesEveryObject(schema);
+}
+
+/**
+ * Parse the schema text the user pasted. Returns an error message instead of
+ * throwing so the input can show it inline.
+ */
+export function parseSchema(text: string): { schema: JsonSchema } | { error: string } {
+  if (!text.trim()) return { error: 'Schema is empty' };
+  try {
+    const schema = JSON.parse(text);
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      return { error: 'Schema must be a JSON object' };
+    }
+    const unsupported = findUnsupported(schema, schema, '');
+    return unsupported ? { error: unsupported } : { schema };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Schema is not valid JSON' };
+  }
+}
+
+// Models often wrap JSON in a Markdown code fence or add a sentence around it
+export function extractJson(text: string): string {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/i);
+  if (fenced) return fenced[1].trim();
+
+  const start = trimmed.search(/[[{]/);
+  if (start > 0) {
+    const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+    if (end > start) return trimmed.slice(start, end + 1);
+  }
+  return trimmed;
+}
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const escapePointer = (key: string) => key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+// `root` resolves $refs; `refDepth` counts the refs followed without descending into the value
+function validateValue(value: unknown, schema: unknown, path: string, errors: SchemaError[], root: JsonSchema, refDepth = 0): void {
+  if (errors.length >= MAX_ERRORS || schema === true || schema === undefined) return;
+  if (schema === false) {
+    errors.push({ path, message: 'No value is allowed here' });
+    return;
+  }
+  if (!schema || typeof schema !== 'object') return;
+  const s = schema as Record<string, unknown>;
+
+  // Keywords next to a $ref apply as well, as in draft 2020-12
+  if (typeof s.$ref === 'string') {
+    const target = resolveRef(root, s.$ref);
+    if (target === undefined) {
+      errors.push({ path, message: `Schema reference ${s.$ref} can't be resolved` });
+    } else if (refDepth >= MAX_REF_DEPTH) {
+      errors.push({ path, message: `Schema references loop at ${s.$ref}` });
+    } else {
+      validateValue(value, target, path, errors, root, refDepth + 1);
+    }
+  }
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? s.type as string[] : [s.type as string];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push({ path, message: `Expected ${types.join(' or ')}, got ${typeOf(value)}` });
+      return;
+    }
+  }
+
+  if (s.const !== undefined && JSON.stringify(value) !== JSON.stringify(s.const)) {
+    errors.push({ path, message: `Must equal ${JSON.stringify(s.const)}` });
+  }
+  if (Array.isArray(s.enum) && !s.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push({ path, message: `Must be one of ${s.enum.map(option => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (typeof s.minimum === 'number' && value < s.minimum) errors.push({ path, message: `Must be >= ${s.minimum}` });
+    if (typeof s.maximum === 'number' && value > s.maximum) errors.push({ path, message: `Must be <= ${s.maximum}` });
+    if (typeof s.exclusiveMinimum === 'number' && value <= s.exclusiveMinimum) errors.push({ path, message: `Must be > ${s.exclusiveMinimum}` });
+    if (typeof s.exclusiveMaximum === 'number' && value >= s.exclusiveMaximum) errors.push({ path, message: `Must be < ${s.exclusiveMaximum}` });
+  }
+
+  if (typeof value === 'string') {
+    if (typeof s.minLength === 'number' && value.length < s.minLength) errors.push({ path, message: `Must be at least ${s.minLength} characters` });
+    if (typeof s.maxLength === 'number' && value.length > s.maxLength) errors.push({ path, message: `Must be at most ${s.maxLength} characters` });
+    if (typeof s.pattern === 'string') {
+      try {
+        if (!new RegExp(s.pattern, 'u').test(value)) errors.push({ path, message: `Must match /${s.pattern}/` });
+      } catch {
+        // An invalid pattern in the schema is the schema's problem, not the response's
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof s.minItems === 'number' && value.length < s.minItems) errors.push({ path, message: `Must have at least ${s.minItems} items` });
+    if (typeof s.maxItems === 'number' && value.length > s.maxItems) errors.push({ path, message: `Must have at most ${s.maxItems} items` });
+    const prefixItems = Array.isArray(s.prefixItems) ? s.prefixItems : [];
+    value.forEach((item, index) => {
+      const itemSchema = index < prefixItems.length ? prefixItems[index] : s.items;
+      validateValue(item, itemSchema, `${path}/${index}`, errors, root);
+    });
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = (s.properties && typeof s.properties === 'object' ? s.properties : {}) as Record<string, unknown>;
+
+    if (Array.isArray(s.required)) {
+      for (const key of s.required as string[]) {
+        if (!Object.hasOwn(object, key)) errors.push({ path: `${path}/${escapePointer(key)}`, message: 'Required property is missing' });
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertyPath = `${path}/${escapePointer(key)}`;
+      if (Object.hasOwn(properties, key)) {
+        validateValue(propertyValue, properties[key], propertyPath, errors, root);
+      } else if (s.additionalProperties === false) {
+        errors.push({ path: propertyPath, message: 'Property is not allowed' });
+      } else if (s.additionalProperties && typeof s.additionalProperties === 'object') {
+        validateValue(propertyValue, s.additionalProperties, propertyPath, errors, root);
+      }
+    }
+  }
+
+  // Combinators are each checked on their own, so anyOf and oneOf side by side both apply
+  const passes = (subschema: unknown): boolean => {
+    const optionErrors: SchemaError[] = [];
+    validateValue(value, subschema, path, optionErrors, root, refDepth);
+    return optionErrors.length === 0;
+  };
+  if (Array.isArray(s.allOf)) {
+    for (const subschema of s.allOf) validateValue(value, subschema, path, errors, root, refDepth);
+  }
+  if (Array.isArray(s.anyOf) && !s.anyOf.some(passes)) {
+    errors.push({ path, message: 'Does not match any of the anyOf options' });
+  }
+  if (Array.isArray(s.oneOf)) {
+    const passing = s.oneOf.filter(passes).length;
+    if (passing === 0) {
+      errors.push({ path, message: 'Does not match any of the oneOf options' });
+    } else if (passing > 1) {
+      errors.push({ path, message: 'Matches more than one oneOf option' });
+    }
+  }
+  if (s.not !== undefined && passes(s.not)) {
+    errors.push({ path, message: 'Must not match the "not" schema' });
+  }
+}
+
+/**
+ * Validate a model response against a schema. The response is parsed as JSON
+ * first; a parse failure is reported as a single error at the root.
+ */
+export function validateResponse(response: string, schema: JsonSchema): SchemaValidation {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(response));
+  } catch (error) {
+    return { valid: false, errors: [{ path: '', message: `Not valid JSON: ${error instanceof Error ? error.message : 'parse error'}` }] };
+  }
+
+  const errors: SchemaError[] = [];
+  validateValue(value, schema, '', errors, schema);
+  return { valid: errors.length === 0, errors };
+}
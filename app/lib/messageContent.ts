@@ -0,0 +1,44 @@
+// Message content as it travels to providers: plain text, or OpenAI-style parts
+// when a user message carries images. Shared by the client, which builds it,
+// and the chat proxy, which strips images for models that can't see them.
+
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }; // Data URL or https URL
+
+export type MessageContent = string | ContentPart[];
+
+export interface ContextMessage {
+  role: string;
+  content: MessageContent;
+}
+
+export function contentText(content: MessageContent): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter((part): part is Extract<ContentPart, { type: 'text' }> => part.type === 'text')
+    .map(part => part.text)
+    .join('\n');
+}
+
+export function countImages(content: MessageContent): number {
+  return typeof content === 'string' ? 0 : content.filter(part => part.type === 'image_url').length;
+}
+
+/**
+ * Embed attached files after the typed prompt, each between BEGIN/END lines
+ * naming the file so models can tell where one ends and the next begins.
+ */
+export function withFileAttachments(prompt: string, files: { name: string; text: string }[]): string {
+  if (files.length === 0) return prompt;
+  const blocks = files.map(file =>
+    `----- BEGIN FILE: ${file.name} -----\n${file.text.replace(/\n$/, '')}\n----- END FILE: ${file.name} -----`
+  );
+  return [prompt, ...blocks].filter(Boolean).join('\n\n');
+}
+
+// Add text after the existing content, keeping any images
+export function appendText(content: MessageContent, text: string): MessageContent {
+  if (typeof content === 'string') return `${content}${text}`;
+  return [...content, { type: 'text', text }];
+}
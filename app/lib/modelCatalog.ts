@@ -0,0 +1,250 @@
+import type { Model, ModelBackend, ModelCapabilities, ModelPrices } from './atoms';
+import localCatalog from '../../config/models.json';
+
+// Validation and merging for the model catalog, shared by the /api/models route
+// and the client. `config/models.json` is both the offline catalog and the set
+// of local overrides (names, descriptions, strengths, backends) applied on top
+// of the provider listing.
+
+export interface ModelCatalog {
+  models: Model[];
+  source: 'openrouter' | 'local';
+  fetchedAt: number;
+}
+
+// A local entry only needs an id; everything else falls back to the listing or defaults
+export type ModelOverride = Partial<Model> & { id: string };
+
+const MODEL_STATUSES: Model['status'][] = ['available', 'rate-limited', 'unavailable'];
+const BACKEND_TYPES: ModelBackend['type'][] = ['openrouter', 'openai-compatible', 'ollama', 'test'];
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// Prices may be numbers or the numeric strings OpenRouter returns
+function parsePrices(prompt: unknown, completion: unknown): ModelPrices | undefined {
+  if (prompt == null || completion == null) return undefined;
+  const promptPrice = Number(prompt);
+  const completionPrice = Number(completion);
+  if (!Number.isFinite(promptPrice) || !Number.isFinite(completionPrice)) return undefined;
+  if (promptPrice < 0 || completionPrice < 0) return undefined; // OpenRouter uses -1 for variable pricing
+  return { prompt: promptPrice, completion: completionPrice };
+}
+
+function validateCapabilities(raw: unknown): ModelCapabilities | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const entry = raw as Record<string, unknown>;
+  const capabilities: ModelCapabilities = {};
+  if (typeof entry.structuredOutput === 'boolean') capabilities.structuredOutput = entry.structuredOutput;
+  if (typeof entry.vision === 'boolean') capabilities.vision = entry.vision;
+  return Object.keys(capabilities).length > 0 ? capabilities : undefined;
+}
+
+// Optional string fields must be non-empty strings when present
+const isOptionalString = (value: unknown): boolean => value === undefined || isNonEmptyString(value);
+
+// Rebuilt field by field, so a malformed entry fails here rather than on its first request
+function validateBackend(raw: unknown): ModelBackend | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const backend = raw as Record<string, unknown>;
+  if (!BACKEND_TYPES.includes(backend.type as ModelBackend['type'])) return undefined;
+  if (!isOptionalString(backend.model) || !isOptionalString(backend.baseUrl) || !isOptionalString(backend.apiKeyEnv)) {
+    return undefined;
+  }
+
+  const model = backend.model as string | undefined;
+  const baseUrl = backend.baseUrl as string | undefined;
+  switch (backend.type) {
+    case 'openrouter':
+      return { type: 'openrouter', ...(model ? { model } : {}) };
+    case 'openai-compatible':
+      if (!baseUrl) return undefined;
+      return {
+        type: 'openai-compatible',
+        baseUrl,
+        ...(backend.apiKeyEnv ? { apiKeyEnv: backend.apiKeyEnv as string } : {}),
+        ...(model ? { model } : {})
+      };
+    case 'ollama':
+      return { type: 'ollama', ...(baseUrl ? { baseUrl } : {}), ...(model ? { model } : {}) };
+    default:
+      return { type: 'test' };
+  }
+}
+
+/**
+ * Check one raw local catalog entry, keeping only well-formed fields.
+ * Returns null when the entry has no usable id.
+ */
+export function validateModelOverride(raw: unknown): ModelOverride | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const entry = raw as Record<string, unknown>;
+  if (!isNonEmptyString(entry.id)) return null;
+
+  const override: ModelOverride = { id: entry.id.trim() };
+  if (isNonEmptyString(entry.name)) override.name = entry.name;
+  if (isNonEmptyString(entry.fullName)) override.fullName = entry.fullName;
+  if (isNonEmptyString(entry.provider)) override.provider = entry.provider;
+  if (isNonEmptyString(entry.description)) override.description = entry.description;
+  if (typeof entry.contextLength === 'number' && entry.contextLength > 0) override.contextLength = entry.contextLength;
+  if (Array.isArray(entry.strengths)) override.strengths = entry.strengths.filter(isNonEmptyString);
+  if (entry.pricing === 'free' || entry.pricing === 'paid') override.pricing = entry.pricing;
+  if (entry.prices && typeof entry.prices === 'object') {
+    const prices = entry.prices as Record<string, unknown>;
+    const parsed = parsePrices(prices.prompt, prices.completion);
+    if (parsed) override.prices = parsed;
+  }
+  if (MODEL_STATUSES.includes(entry.status as Model['status'])) override.status = entry.status as Model['status'];
+
+  const capabilities = validateCapabilities(entry.capabilities);
+  if (capabilities) override.capabilities = capabilities;
+
+  if (entry.backend !== undefined) {
+    const backend = validateBackend(entry.backend);
+    if (backend) {
+      override.backend = backend;
+    } else {
+      console.warn(`Ignoring invalid backend of model catalog entry ${override.id}:`, entry.backend);
+    }
+  }
+
+  if (Array.isArray(entry.fallbacks)) {
+    const fallbacks = entry.fallbacks.filter(isNonEmptyString).filter(id => id !== override.id);
+    if (fallbacks.length > 0) override.fallbacks = fallbacks;
+  }
+  return override;
+}
+
+export function parseLocalCatalog(raw: unknown): ModelOverride[] {
+  const entries = raw && typeof raw === 'object' && Array.isArray((raw as { models?: unknown }).models)
+    ? (raw as { models: unknown[] }).models
+    : [];
+
+  const overrides: ModelOverride[] = [];
+  for (const entry of entries) {
+    const override = validateModelOverride(entry);
+    if (override) {
+      overrides.push(override);
+    } else {
+      console.warn('Skipping invalid model catalog entry:', entry);
+    }
+  }
+
+  // The proxy sizes and prices a fallback from its own entry, so one without an
+  // entry would be trimmed to the default window and counted as free
+  const ids = new Set(overrides.map(override => override.id));
+  for (const override of overrides) {
+    const unresolved = override.fallbacks?.filter(id => !ids.has(id)) ?? [];
+    if (unresolved.length > 0) {
+      console.error(`Model catalog entry ${override.id} has fallbacks with no catalog entry of their own:`, unresolved);
+    }
+  }
+  return overrides;
+}
+
+// Fill in whatever an entry leaves out so the UI never sees a partial model
+export function toModel(entry: ModelOverride): Model {
+  const [vendor] = entry.id.split('/');
+  return {
+    id: entry.id,
+    name: entry.name || entry.id,
+    fullName: entry.fullName || entry.name || entry.id,
+    provider: entry.provider || vendor,
+    contextLength: entry.contextLength || 4096,
+    description: entry.description || '',
+    strengths: entry.strengths || [],
+    pricing: entry.pricing || (entry.id.endsWith(':free') ? 'free' : 'paid'),
+    status: entry.status || 'available',
+    ...(entry.prices ? { prices: entry.prices } : {}),
+    ...(entry.capabilities ? { capabilities: entry.capabilities } : {}),
+    ...(entry.backend ? { backend: entry.backend } : {}),
+    ...(entry.fallbacks ? { fallbacks: entry.fallbacks } : {})
+  };
+}
+
+// Live fields the provider listing knows better than a hand-edited file
+export type ListedModel = Pick<Model, 'id' | 'fullName' | 'contextLength' | 'pricing' | 'prices' | 'capabilities' | 'description'>;
+
+interface OpenRouterListingEntry {
+  id?: unknown;
+  name?: unknown;
+  description?: unknown;
+  context_length?: unknown;
+  pricing?: { prompt?: unknown; completion?: unknown };
+  supported_parameters?: unknown;
+  architecture?: { input_modalities?: unknown };
+}
+
+/**
+ * Parse the body of OpenRouter's `GET /models`. Throws when the shape is not
+ * what we expect so the caller can fall back to the local catalog.
+ */
+export function parseOpenRouterListing(raw: unknown): ListedModel[] {
+  const data = raw && typeof raw === 'object' ? (raw as { data?: unknown }).data : undefined;
+  if (!Array.isArray(data)) {
+    throw new Error('Model listing has no data array');
+  }
+
+  const listed: ListedModel[] = [];
+  for (const item of data as OpenRouterListingEntry[]) {
+    if (!isNonEmptyString(item?.id) || typeof item.context_length !== 'number') continue;
+
+    const prices = parsePrices(item.pricing?.prompt, item.pricing?.completion);
+    const isFree = prices !== undefined && prices.prompt === 0 && prices.completion === 0;
+    const supportedParameters = Array.isArray(item.supported_parameters) ? item.supported_parameters : [];
+    const inputModalities = Array.isArray(item.architecture?.input_modalities) ? item.architecture.input_modalities : [];
+    listed.push({
+      id: item.id,
+      fullName: isNonEmptyString(item.name) ? item.name : item.id,
+      description: isNonEmptyString(item.description) ? item.description : '',
+      contextLength: item.context_length,
+      pricing: isFree ? 'free' : 'paid',
+      prices,
+      capabilities: {
+        structuredOutput: supportedParameters.includes('response_format') || supportedParameters.includes('structured_outputs'),
+        vision: inputModalities.includes('image')
+      }
+    });
+  }
+
+  if (listed.length === 0) {
+    throw new Error('Model listing contained no valid models');
+  }
+  return listed;
+}
+
+/**
+ * Combine the listing with local overrides. The local file decides which models
+ * are offered and how they are described; the listing supplies context length
+ * and pricing, and an OpenRouter model missing from it is marked unavailable.
+ */
+export function mergeCatalog(listed: ListedModel[], overrides: ModelOverride[]): Model[] {
+  const listedById = new Map(listed.map(model => [model.id, model]));
+
+  return overrides.map(override => {
+    const servedByOpenRouter = !override.backend || override.backend.type === 'openrouter';
+    if (!servedByOpenRouter) return toModel(override);
+
+    const upstreamId = (override.backend && 'model' in override.backend && override.backend.model) || override.id;
+    const live = listedById.get(upstreamId);
+    if (!live) return toModel({ ...override, status: 'unavailable' });
+
+    return toModel({
+      ...override,
+      fullName: override.fullName || live.fullName,
+      description: override.description || live.description,
+      contextLength: live.contextLength,
+      pricing: live.pricing,
+      prices: live.prices ?? override.prices,
+      // Hand-set capabilities win: listings are sometimes optimistic
+      capabilities: { ...live.capabilities, ...override.capabilities }
+    });
+  });
+}
+
+export function findModel(catalog: Model[], modelId: string): Model | undefined {
+  return catalog.find(model => model.id === modelId);
+}
+
+// Bundled copy of config/models.json, used until /api/models answers and
+// whenever the server cannot be reached
+export const DEFAULT_MODEL_CATALOG: Model[] = parseLocalCatalog(localCatalog).map(toModel);
@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Model } from './atoms';
+import {
+  DEFAULT_MODEL_CATALOG,
+  findModel,
+  mergeCatalog,
+  parseLocalCatalog,
+  parseOpenRouterListing,
+  toModel,
+  type ModelCatalog
+} from './modelCatalog';
+
+// Server-side cache of the model catalog. The OpenRouter listing is fetched at
+// most once per TTL; if it fails the last good catalog is kept, and with none
+// available the local file is served on its own.
+
+const OPENROUTER_MODELS_URL = 'https://openrouter.ai/api/v1/models';
+const CATALOG_TTL_MS = Number(process.env.MODEL_CATALOG_TTL_MS) || 10 * 60 * 1000;
+const LISTING_TIMEOUT_MS = 10000;
+
+export function getCatalogFile(): string {
+  return process.env.MODEL_CATALOG_FILE || path.join(process.cwd(), 'config', 'models.json');
+}
+
+// Offline providers and MODEL_CATALOG_SOURCE=local skip the listing entirely
+function isLocalCatalogOnly(): boolean {
+  return process.env.MODEL_CATALOG_SOURCE === 'local'
+    || process.env.CHAT_PROXY_PROVIDER === 'test'
+    || process.env.CHAT_PROXY_PROVIDER === 'mock';
+}
+
+async function loadLocalOverrides() {
+  try {
+    const raw = JSON.parse(await fs.readFile(getCatalogFile(), 'utf8'));
+    const overrides = parseLocalCatalog(raw);
+    if (overrides.length > 0) return overrides;
+    console.warn(`Model catalog ${getCatalogFile()} has no valid models, using the bundled catalog`);
+  } catch (error) {
+    console.warn(`Could not read model catalog ${getCatalogFile()}, using the bundled catalog:`, error);
+  }
+  return DEFAULT_MODEL_CATALOG;
+}
+
+async function fetchListing() {
+  const response = await fetch(OPENROUTER_MODELS_URL, {
+    headers: { 'Accept': 'application/json' },
+    signal: AbortSignal.timeout(LISTING_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`Model listing request failed (${response.status})`);
+  }
+  return parseOpenRouterListing(await response.json());
+}
+
+class ModelCatalogStore {
+  private catalog: ModelCatalog | null = null;
+  private loading: Promise<ModelCatalog> | null = null;
+
+  async get(forceRefresh = false): Promise<ModelCatalog> {
+    const fresh = this.catalog && Date.now() - this.catalog.fetchedAt < CATALOG_TTL_MS;
+    if (fresh && !forceRefresh) return this.catalog!;
+
+    // Concurrent callers share one load
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  // Latest catalog without waiting; falls back to the bundled one before the first load
+  peek(): Model[] {
+    return this.catalog?.models ?? DEFAULT_MODEL_CATALOG;
+  }
+
+  private async load(): Promise<ModelCatalog> {
+    const overrides = await loadLocalOverrides();
+
+    if (!isLocalCatalogOnly()) {
+      try {
+        const listed = await fetchListing();
+        this.catalog = { models: mergeCatalog(listed, overrides), source: 'openrouter', fetchedAt: Date.now() };
+        return this.catalog;
+      } catch (error) {
+        console.warn('Model listing unavailable:', error instanceof Error ? error.message : error);
+        // A stale listing beats none; retry after the next TTL
+        if (this.catalog?.source === 'openrouter') {
+          this.catalog = { ...this.catalog, fetchedAt: Date.now() };
+          return this.catalog;
+        }
+      }
+    }
+
+    this.catalog = { models: overrides.map(toModel), source: 'local', fetchedAt: Date.now() };
+    return this.catalog;
+  }
+}
+
+// Route handlers are bundled separately, so the singleton lives on globalThis
+const globalForCatalog = globalThis as unknown as { modelCatalogStore?: ModelCatalogStore };
+
+export const modelCatalogStore = globalForCatalog.modelCatalogStore ??= new ModelCatalogStore();
+
+export const getCatalogModel = (modelId: string): Model | undefined => findModel(modelCatalogStore.peek(), modelId);
@@ -0,0 +1,154 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ProviderAdapter, ProviderRequest } from './types';
+
+/**
+ * A recorded upstream response. `chunks` are the raw body pieces exactly as
+ * they arrived, each with the delay (ms) since the previous one. `drop` makes
+ * the replayed stream fail after the last chunk, like a dropped connection.
+ */
+export interface StreamFixture {
+  model?: string;
+  recordedAt?: string;
+  status: number;
+  headers?: Record<string, string>;
+  body?: string; // Error body for non-2xx responses
+  chunks: Array<{ delay: number; data: string }>;
+  drop?: boolean;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function getFixturesDir(): string {
+  return process.env.CHAT_PROXY_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'chat-proxy');
+}
+
+// Model ids contain `/` and `:`, which don't belong in file names
+export function fixtureSlug(modelId: string): string {
+  return modelId.replace(/[/:]/g, '_');
+}
+
+async function readFixture(file: string): Promise<StreamFixture | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as StreamFixture;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Find the fixture for a model: a forced scenario (CHAT_PROXY_MOCK_SCENARIO),
+ * then `<slug>.json`, then `default.json`.
+ */
+export async function loadFixture(modelId: string): Promise<StreamFixture> {
+  const dir = getFixturesDir();
+  const scenario = process.env.CHAT_PROXY_MOCK_SCENARIO;
+  const candidates = [
+    ...(scenario ? [path.join(dir, 'scenarios', `${scenario}.json`)] : []),
+    path.join(dir, `${fixtureSlug(modelId)}.json`),
+    path.join(dir, 'default.json')
+  ];
+
+  for (const file of candidates) {
+    const fixture = await readFixture(file);
+    if (fixture) return fixture;
+  }
+
+  throw new Error(`No fixture found for ${modelId} in ${dir}`);
+}
+
+// Offline adapter that replays recorded fixtures with their original timing
+export function createMockAdapter(modelId: string): ProviderAdapter {
+  return {
+    type: 'mock',
+    async request({ signal }: ProviderRequest): Promise<Response> {
+      const fixture = await loadFixture(modelId);
+
+      if (fixture.status < 200 || fixture.status >= 300) {
+        return new Response(fixture.body ?? '', { status: fixture.status, headers: fixture.headers });
+      }
+
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          for (const chunk of fixture.chunks) {
+            await delay(chunk.delay);
+            if (signal?.aborted) {
+              controller.error(new DOMException('The operation was aborted.', 'AbortError'));
+              return;
+            }
+            controller.enqueue(encoder.encode(chunk.data));
+          }
+
+          if (fixture.drop) {
+            controller.error(new TypeError('terminated'));
+          } else {
+            controller.close();
+          }
+        }
+      });
+
+      return new Response(body, { status: fixture.status, headers: fixture.headers });
+    }
+  };
+}
+
+async function writeFixture(modelId: string, fixture: StreamFixture): Promise<void> {
+  const dir = path.join(getFixturesDir(), 'recorded');
+  const file = path.join(dir, `${fixtureSlug(modelId)}-${Date.now()}.json`);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(file, JSON.stringify(fixture, null, 2));
+  console.log(`Recorded fixture for ${modelId}: ${file}`);
+}
+
+/**
+ * Wrap a real adapter so every upstream response is also captured into
+ * `<fixtures>/recorded/`. The recorded file can be copied to `<slug>.json`
+ * to replay it in mock mode.
+ */
+export function withRecording(adapter: ProviderAdapter, modelId: string): ProviderAdapter {
+  return {
+    type: adapter.type,
+    async request(request: ProviderRequest): Promise<Response> {
+      const startTime = Date.now();
+      const response = await adapter.request(request);
+      const fixture: StreamFixture = {
+        model: modelId,
+        recordedAt: new Date(startTime).toISOString(),
+        status: response.status,
+        headers: { 'content-type': response.headers.get('content-type') || 'text/event-stream' },
+        chunks: []
+      };
+
+      if (!response.ok || !response.body) {
+        fixture.body = await response.clone().text().catch(() => '');
+        writeFixture(modelId, fixture).catch(error => console.error('Failed to record fixture:', error));
+        return response;
+      }
+
+      const [body, copy] = response.body.tee();
+
+      // Capture in the background so recording never slows the live stream
+      (async () => {
+        const reader = copy.getReader();
+        const decoder = new TextDecoder();
+        let last = startTime;
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            const now = Date.now();
+            fixture.chunks.push({ delay: now - last, data: decoder.decode(value, { stream: true }) });
+            last = now;
+          }
+        } catch {
+          fixture.drop = true;
+        }
+        await writeFixture(modelId, fixture);
+      })().catch(error => console.error('Failed to record fixture:', error));
+
+      return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+    }
+  };
+}
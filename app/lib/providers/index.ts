@@ -0,0 +1,78 @@
+import type { ModelBackend } from '../atoms';
+import { describeApiKey, type ResolvedApiKey } from '../apiKeys';
+import { getCatalogModel } from '../modelCatalogStore';
+import { apiKeyFingerprint } from '../rateLimiter';
+import { createMockAdapter, withRecording } from './fixtures';
+import { createOllamaAdapter } from './ollama';
+import { createOpenAICompatibleAdapter, createOpenRouterAdapter } from './openAICompatible';
+import { createTestAdapter } from './test';
+import { ProviderAdapter } from './types';
+
+export * from './types';
+export { readProviderStream } from './streams';
+
+export interface ResolvedProvider {
+  adapter: ProviderAdapter;
+  model: string; // Upstream model name
+  rateLimitKey?: string; // Identifies the credential for the shared rate limiter; unset means unlimited
+  apiKeyId?: string | null; // Fingerprint of the credential calls are made with; null when one is needed but missing, unset when none is
+  apiKeyLabel?: string; // Names the credential in error messages, e.g. "your OpenRouter API key"
+}
+
+export function createAdapter(backend: ModelBackend, openRouterKey: ResolvedApiKey | null): ProviderAdapter {
+  switch (backend.type) {
+    case 'openai-compatible':
+      return createOpenAICompatibleAdapter({
+        type: 'openai-compatible',
+        baseUrl: backend.baseUrl,
+        apiKey: backend.apiKeyEnv ? process.env[backend.apiKeyEnv] : undefined,
+        requireApiKey: Boolean(backend.apiKeyEnv),
+        missingApiKeyMessage: `${backend.apiKeyEnv} is not set on the server.`,
+        body: { stream_options: { include_usage: true } }
+      });
+    case 'ollama':
+      return createOllamaAdapter(backend.baseUrl || process.env.OLLAMA_BASE_URL || 'http://localhost:11434');
+    case 'test':
+      return createTestAdapter();
+    case 'openrouter':
+    default:
+      return createOpenRouterAdapter(openRouterKey);
+  }
+}
+
+/**
+ * Look up which backend serves a model. Models without a `backend` are served
+ * by OpenRouter with `openRouterKey`, the key the request resolved to.
+ * CHAT_PROXY_PROVIDER overrides this for every model: `test` uses the offline
+ * echo adapter, `mock` replays recorded fixtures. CHAT_PROXY_RECORD=true
+ * captures real upstream traffic into fixtures.
+ */
+export function resolveProvider(modelId: string, openRouterKey: ResolvedApiKey | null): ResolvedProvider {
+  const model = getCatalogModel(modelId);
+  const backend: ModelBackend = process.env.CHAT_PROXY_PROVIDER === 'test'
+    ? { type: 'test' }
+    : model?.backend || { type: 'openrouter' };
+  const upstreamModel = ('model' in backend && backend.model) || modelId;
+
+  if (process.env.CHAT_PROXY_PROVIDER === 'mock') {
+    // Replays spend no upstream quota, so they aren't rate limited
+    return { adapter: createMockAdapter(modelId), model: upstreamModel };
+  }
+
+  const adapter = createAdapter(backend, openRouterKey);
+  const isOpenRouter = backend.type === 'openrouter';
+  const serverKey = backend.type === 'openai-compatible' && backend.apiKeyEnv ? process.env[backend.apiKeyEnv] : undefined;
+  const apiKeyId = isOpenRouter
+    ? (openRouterKey ? apiKeyFingerprint(openRouterKey.key) : null)
+    : backend.type === 'openai-compatible' && backend.apiKeyEnv ? (serverKey ? apiKeyFingerprint(serverKey) : null) : undefined;
+  return {
+    adapter: process.env.CHAT_PROXY_RECORD === 'true' ? withRecording(adapter, modelId) : adapter,
+    model: upstreamModel,
+    // Every user key gets its own bucket
+    rateLimitKey: isOpenRouter ? apiKeyId ?? undefined : undefined,
+    apiKeyId,
+    apiKeyLabel: isOpenRouter && openRouterKey
+      ? describeApiKey('openrouter', openRouterKey.source)
+      : backend.type === 'openai-compatible' && backend.apiKeyEnv ? `the server's ${backend.apiKeyEnv}` : undefined
+  };
+}
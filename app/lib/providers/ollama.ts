@@ -0,0 +1,54 @@
+import { contentText } from '../messageContent';
+import { ChatMessage, ProviderAdapter, ProviderRequest } from './types';
+
+// Ollama takes images as a base64 list beside plain-text content, and tool call
+// arguments as objects rather than JSON strings
+function toOllamaMessage(message: ChatMessage) {
+  const images = typeof message.content === 'string'
+    ? []
+    : message.content.flatMap(part => (part.type === 'image_url' ? [part.image_url.url.replace(/^data:[^,]*,/, '')] : []));
+  const base = { ...message, content: contentText(message.content), ...(images.length ? { images } : {}) };
+  if (!message.tool_calls) return base;
+  return {
+    ...base,
+    tool_calls: message.tool_calls.map(call => {
+      let args: unknown = {};
+      try {
+        args = JSON.parse(call.function.arguments || '{}');
+      } catch {
+        // Malformed arguments were already reported back to the model
+      }
+      return { function: { name: call.function.name, arguments: args } };
+    })
+  };
+}
+
+// Local Ollama-style server using the native `/api/chat` NDJSON stream
+export function createOllamaAdapter(baseUrl: string): ProviderAdapter {
+  return {
+    type: 'ollama',
+    async request({ model, messages, parameters, tools, responseSchema, signal }: ProviderRequest): Promise<Response> {
+      return fetch(`${baseUrl.replace(/\/$/, '')}/api/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model,
+          messages: messages.map(toOllamaMessage),
+          stream: true,
+          ...(tools?.length ? { tools } : {}),
+          ...(responseSchema ? { format: responseSchema } : {}),
+          options: {
+            temperature: parameters.temperature,
+            top_p: parameters.top_p,
+            num_predict: parameters.max_tokens,
+            stop: parameters.stop,
+            seed: parameters.seed,
+            frequency_penalty: parameters.frequency_penalty,
+            presence_penalty: parameters.presence_penalty
+          }
+        }),
+        signal
+      });
+    }
+  };
+}
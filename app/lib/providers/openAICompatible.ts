@@ -0,0 +1,69 @@
+import { APIError, ProviderAdapter, ProviderRequest } from './types';
+import { missingApiKeyMessage, type ResolvedApiKey } from '../apiKeys';
+import { isStrictSchema } from '../jsonSchema';
+
+interface OpenAICompatibleOptions {
+  type: 'openrouter' | 'openai-compatible';
+  baseUrl: string;
+  apiKey?: string;
+  requireApiKey?: boolean;
+  missingApiKeyMessage?: string; // Says which key to provide
+  headers?: Record<string, string>;
+  body?: Record<string, unknown>; // Extra request fields, e.g. how to ask for usage
+}
+
+// Any backend that speaks the OpenAI `/chat/completions` streaming protocol
+export function createOpenAICompatibleAdapter(options: OpenAICompatibleOptions): ProviderAdapter {
+  return {
+    type: options.type,
+    async request({ model, messages, parameters, tools, responseSchema, signal }: ProviderRequest): Promise<Response> {
+      // Check for API key before making request
+      if (options.requireApiKey && !options.apiKey) {
+        const error = new Error(options.missingApiKeyMessage ?? 'API key is not configured. Please check your environment variables.') as APIError;
+        error.retryable = false;
+        throw error;
+      }
+
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        ...options.headers
+      };
+      if (options.apiKey) {
+        headers["Authorization"] = `Bearer ${options.apiKey}`;
+      }
+
+      return fetch(`${options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          "model": model,
+          "messages": messages,
+          "stream": true,
+          ...(tools?.length ? { tools } : {}),
+          ...(responseSchema ? {
+            "response_format": { type: 'json_schema', json_schema: { name: 'response', strict: isStrictSchema(responseSchema), schema: responseSchema } }
+          } : {}),
+          ...options.body,
+          ...parameters
+        }),
+        signal
+      });
+    }
+  };
+}
+
+// `apiKey` is the user's own key or the server's, whichever the request resolved to
+export function createOpenRouterAdapter(apiKey: ResolvedApiKey | null): ProviderAdapter {
+  return createOpenAICompatibleAdapter({
+    type: 'openrouter',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    apiKey: apiKey?.key,
+    requireApiKey: true,
+    missingApiKeyMessage: missingApiKeyMessage('openrouter'),
+    body: { usage: { include: true } }, // Token counts in the final chunk
+    headers: {
+      "HTTP-Referer": process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000",
+      "X-Title": "Multi-Model Chat Comparison"
+    }
+  });
+}
@@ -0,0 +1,189 @@
+import { ProviderChunk, TokenUsage } from './types';
+import { SSEParser, type SSEMessage } from '../sseParser';
+
+// Read an upstream body line by line
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        yield line;
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer) {
+      yield buffer;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Read an upstream event stream event by event
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const messages: SSEMessage[] = [];
+  const parser = new SSEParser(message => messages.push(message));
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      parser.feed(decoder.decode(value, { stream: true }));
+      yield* messages.splice(0);
+    }
+
+    parser.feed(decoder.decode());
+    parser.end();
+    yield* messages.splice(0);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const asCount = (value: unknown): number | undefined => (typeof value === 'number' && value >= 0 ? value : undefined);
+
+// OpenAI `usage` block; reasoning tokens are nested under completion_tokens_details
+function parseOpenAIUsage(usage: Record<string, unknown>): TokenUsage {
+  const details = usage.completion_tokens_details as Record<string, unknown> | undefined;
+  return {
+    promptTokens: asCount(usage.prompt_tokens),
+    completionTokens: asCount(usage.completion_tokens),
+    reasoningTokens: asCount(details?.reasoning_tokens),
+    totalTokens: asCount(usage.total_tokens)
+  };
+}
+
+// OpenAI-compatible `data:` event streams (OpenRouter, vLLM, LM Studio, ...)
+async function* parseSSEStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ProviderChunk> {
+  for await (const { data } of readEvents(body)) {
+    if (data === '[DONE]') {
+      yield { type: 'done' };
+      return;
+    }
+
+    let parsed;
+    try {
+      parsed = JSON.parse(data);
+    } catch (parseError) {
+      // Don't fail the entire stream for parsing errors
+      if (data.trim()) {
+        console.warn('Parse error in upstream stream:', parseError, 'Data:', data.substring(0, 100));
+      }
+      continue;
+    }
+
+    // OpenRouter uses `reasoning`; DeepSeek, vLLM and others use `reasoning_content`
+    const delta = parsed.choices?.[0]?.delta;
+    const reasoning = delta?.reasoning ?? delta?.reasoning_content;
+    if (typeof reasoning === 'string' && reasoning) {
+      yield { type: 'reasoning', text: reasoning };
+    }
+
+    if (Array.isArray(delta?.tool_calls)) {
+      for (const call of delta.tool_calls) {
+        yield {
+          type: 'tool_call',
+          index: typeof call.index === 'number' ? call.index : 0,
+          id: call.id || undefined,
+          name: call.function?.name || undefined,
+          arguments: call.function?.arguments || undefined
+        };
+      }
+    }
+
+    if (delta?.content) {
+      yield { type: 'content', text: delta.content };
+    } else if (parsed.error) {
+      throw new Error(parsed.error.message || 'API returned an error');
+    }
+
+    // The finish reason and usage block usually ride on the last chunks
+    if (typeof parsed.choices?.[0]?.finish_reason === 'string') {
+      yield { type: 'usage', usage: { finishReason: parsed.choices[0].finish_reason } };
+    }
+    if (parsed.usage && typeof parsed.usage === 'object') {
+      yield { type: 'usage', usage: parseOpenAIUsage(parsed.usage) };
+    }
+  }
+}
+
+// Ollama-style newline-delimited JSON streams
+async function* parseNDJSONStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ProviderChunk> {
+  for await (const line of readLines(body)) {
+    if (!line.trim()) continue;
+
+    let parsed;
+    try {
+      parsed = JSON.parse(line);
+    } catch (parseError) {
+      console.warn('Parse error in upstream stream:', parseError, 'Data:', line.substring(0, 100));
+      continue;
+    }
+
+    if (parsed.error) {
+      throw new Error(typeof parsed.error === 'string' ? parsed.error : 'API returned an error');
+    }
+    if (parsed.message?.thinking) {
+      yield { type: 'reasoning', text: parsed.message.thinking };
+    }
+    if (parsed.message?.content) {
+      yield { type: 'content', text: parsed.message.content };
+    }
+    // Ollama sends each tool call whole, with arguments as an object
+    if (Array.isArray(parsed.message?.tool_calls)) {
+      for (const [index, call] of parsed.message.tool_calls.entries()) {
+        yield {
+          type: 'tool_call',
+          index,
+          id: `call_${Date.now()}_${index}`,
+          name: call.function?.name,
+          arguments: JSON.stringify(call.function?.arguments ?? {})
+        };
+      }
+    }
+    if (parsed.done) {
+      const promptTokens = asCount(parsed.prompt_eval_count);
+      const completionTokens = asCount(parsed.eval_count);
+      yield {
+        type: 'usage',
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens !== undefined && completionTokens !== undefined ? promptTokens + completionTokens : undefined,
+          finishReason: typeof parsed.done_reason === 'string' ? parsed.done_reason : undefined
+        }
+      };
+      yield { type: 'done' };
+      return;
+    }
+  }
+}
+
+/**
+ * Normalize an upstream streaming response into provider-agnostic chunks.
+ * The wire format is picked from the response content type.
+ */
+export function readProviderStream(response: Response): AsyncGenerator<ProviderChunk> {
+  if (!response.body) {
+    throw new Error('No response stream received from the model');
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  return contentType.includes('ndjson')
+    ? parseNDJSONStream(response.body)
+    : parseSSEStream(response.body);
+}
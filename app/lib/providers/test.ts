@@ -0,0 +1,84 @@
+import { contentText, countImages } from '../messageContent';
+import { ProviderAdapter, ProviderRequest } from './types';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A single tool call, streamed in two deltas the way OpenAI-compatible APIs split them
+function createToolCallBody(encoder: TextEncoder, name: string, args: string): ReadableStream<Uint8Array> {
+  const deltas = [
+    { index: 0, id: `call_${Date.now()}`, type: 'function', function: { name, arguments: '' } },
+    { index: 0, function: { arguments: args } }
+  ];
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const toolCall of deltas) {
+        const payload = { choices: [{ index: 0, delta: { tool_calls: [toolCall] } }] };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+      }
+      const final = { choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] };
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify(final)}\n\n`));
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    }
+  });
+}
+
+/**
+ * Offline adapter that answers with a deterministic echo of the last user
+ * message, streamed word by word in the OpenAI SSE format so the whole
+ * pipeline (parser, events, client) runs without network access. When the
+ * current_time tool is offered it calls it first, to exercise the tool loop.
+ */
+export function createTestAdapter(tokenDelayMs: number = 20): ProviderAdapter {
+  return {
+    type: 'test',
+    async request({ model, messages, tools, signal }: ProviderRequest): Promise<Response> {
+      const lastUserMessage = [...messages].reverse().find(msg => msg.role === 'user');
+      const lastMessage = messages[messages.length - 1];
+      const encoder = new TextEncoder();
+
+      // With current_time on offer, ask for it once, then echo what it returned
+      if (lastMessage?.role === 'user' && tools?.some(tool => tool.function.name === 'current_time')) {
+        return new Response(createToolCallBody(encoder, 'current_time', '{"timezone": "UTC"}'), {
+          status: 200,
+          headers: { 'Content-Type': 'text/event-stream' }
+        });
+      }
+
+      const imageCount = lastUserMessage ? countImages(lastUserMessage.content) : 0;
+      const reply = lastMessage?.role === 'tool'
+        ? `Test response from ${model}. The tool returned: ${contentText(lastMessage.content)}`
+        : `Test response from ${model}. You said: ${lastUserMessage ? contentText(lastUserMessage.content) : '(nothing)'}` +
+          (imageCount > 0 ? ` (with ${imageCount} image${imageCount !== 1 ? 's' : ''})` : '');
+      const tokens = reply.split(/(?<=\s)/);
+
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          // A short reasoning delta so the separate thinking channel is exercised too
+          const thinking = { choices: [{ index: 0, delta: { reasoning: 'Echoing the last user message.' } }] };
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(thinking)}\n\n`));
+
+          for (const token of tokens) {
+            if (signal?.aborted) break;
+            await delay(tokenDelayMs);
+            const payload = { choices: [{ index: 0, delta: { content: token } }] };
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+          }
+          const promptTokens = messages.reduce((sum, msg) => sum + contentText(msg.content).split(/\s+/).filter(Boolean).length, 0);
+          const final = {
+            choices: [{ index: 0, delta: {}, finish_reason: signal?.aborted ? 'abort' : 'stop' }],
+            usage: { prompt_tokens: promptTokens, completion_tokens: tokens.length, total_tokens: promptTokens + tokens.length }
+          };
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(final)}\n\n`));
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        }
+      });
+
+      return new Response(body, {
+        status: 200,
+        headers: { 'Content-Type': 'text/event-stream' }
+      });
+    }
+  };
+}
@@ -0,0 +1,47 @@
+import type { ModelBackend, TokenUsage } from '../atoms';
+import type { GenerationParameters } from '../generationParameters';
+import type { JsonSchema } from '../jsonSchema';
+import type { MessageContent } from '../messageContent';
+import type { ToolCall, ToolDefinition } from '../tools/definitions';
+
+export type { GenerationParameters, JsonSchema, TokenUsage, ToolCall, ToolDefinition };
+
+export interface ChatMessage {
+  role: string;
+  content: MessageContent; // Parts only when a user message carries images
+  tool_calls?: ToolCall[]; // Assistant turns that called tools
+  tool_call_id?: string; // `tool` messages answering one of those calls
+}
+
+// Enhanced error types for better error handling
+export interface APIError extends Error {
+  status?: number;
+  retryable?: boolean;
+  timedOut?: boolean; // Gave up waiting for the upstream rather than getting an answer
+}
+
+export interface ProviderRequest {
+  model: string; // Upstream model name, which may differ from our catalog id
+  messages: ChatMessage[];
+  parameters: GenerationParameters;
+  tools?: ToolDefinition[];
+  responseSchema?: JsonSchema; // Constrain the output natively; only sent to models that support it
+  signal?: AbortSignal;
+}
+
+// Provider-agnostic pieces of an upstream stream
+export type ProviderChunk =
+  | { type: 'content'; text: string }
+  | { type: 'reasoning'; text: string } // Thinking the provider streams separately from the answer
+  | { type: 'tool_call'; index: number; id?: string; name?: string; arguments?: string } // Delta of one call; `index` ties pieces together
+  | { type: 'usage'; usage: TokenUsage } // Token counts and/or finish reason; may arrive in pieces
+  | { type: 'done' };
+
+export type ProviderType = ModelBackend['type'] | 'mock';
+
+export interface ProviderAdapter {
+  readonly type: ProviderType;
+  // Opens the streaming request. Non-2xx responses are returned as-is so the
+  // route can apply the shared status handling and retry policy.
+  request(request: ProviderRequest): Promise<Response>;
+}
@@ -0,0 +1,104 @@
+import { createHash } from 'crypto';
+
+// Server-side token buckets shared by every chat going through the proxy.
+// Each upstream call takes one token from its API key's bucket and one from the
+// bucket of its model under that key; when either is empty the call is scheduled for the moment the
+// bucket refills instead of being sent and bounced with a 429.
+
+export interface RateLimit {
+  requests: number; // Bucket capacity, also the refill per window
+  windowMs: number;
+}
+
+// OpenRouter free tier: 20 requests per minute
+const DEFAULT_LIMIT: RateLimit = {
+  requests: Number(process.env.CHAT_PROXY_RATE_LIMIT) || 20,
+  windowMs: 60000
+};
+
+interface Bucket {
+  tokens: number; // Goes negative while calls are queued behind the budget
+  updatedAt: number;
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private limit: RateLimit = DEFAULT_LIMIT) {}
+
+  private refill(key: string, now: number): Bucket {
+    const bucket = this.buckets.get(key) ?? { tokens: this.limit.requests, updatedAt: now };
+    const refilled = (now - bucket.updatedAt) * this.limit.requests / this.limit.windowMs;
+    bucket.tokens = Math.min(this.limit.requests, bucket.tokens + refilled);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+
+  // Take a token from every bucket and return how long the caller must wait
+  // before its token is actually available
+  reserve(keys: string[]): number {
+    const now = Date.now();
+    let waitMs = 0;
+
+    for (const key of keys) {
+      const bucket = this.refill(key, now);
+      bucket.tokens -= 1;
+      if (bucket.tokens < 0) {
+        waitMs = Math.max(waitMs, Math.ceil(-bucket.tokens * this.limit.windowMs / this.limit.requests));
+      }
+    }
+    return waitMs;
+  }
+
+  // Hand back tokens for a call that was cancelled while queued
+  release(keys: string[]): void {
+    const now = Date.now();
+    for (const key of keys) {
+      const bucket = this.refill(key, now);
+      bucket.tokens = Math.min(this.limit.requests, bucket.tokens + 1);
+    }
+  }
+
+  /**
+   * Wait until every bucket has budget for one more call. `onWait` is told the
+   * expected delay up front so it can be shown to the user. Rejects with the
+   * signal's reason, returning the reservation, if aborted while queued.
+   */
+  async acquire(keys: string[], signal?: AbortSignal, onWait?: (waitMs: number) => void): Promise<void> {
+    signal?.throwIfAborted();
+
+    const waitMs = this.reserve(keys);
+    if (waitMs <= 0) return;
+
+    onWait?.(waitMs);
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        this.release(keys);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, waitMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+// Buckets are keyed by a fingerprint so API keys never end up in memory dumps or logs
+export function apiKeyFingerprint(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+// Upstream quotas belong to a key, so model buckets are per key too: users who
+// bring their own keys don't drain each other's
+export function rateLimitKeys(apiKeyId: string, modelId: string): string[] {
+  return [`key:${apiKeyId}`, `model:${apiKeyId}:${modelId}`];
+}
+
+// Route handlers are bundled separately, so the singleton lives on globalThis
+const globalForLimiter = globalThis as unknown as { chatRateLimiter?: RateLimiter };
+
+export const rateLimiter = globalForLimiter.chatRateLimiter ??= new RateLimiter();
@@ -0,0 +1,52 @@
+// Tracks in-flight chat-proxy requests so individual models can be cancelled
+// from a separate request (e.g. the per-column stop button).
+
+export class RequestRegistry {
+  private requests = new Map<string, Map<string, AbortController>>();
+
+  register(requestId: string, modelId: string): AbortController {
+    const controller = new AbortController();
+    if (!this.requests.has(requestId)) {
+      this.requests.set(requestId, new Map());
+    }
+    this.requests.get(requestId)!.set(modelId, controller);
+    return controller;
+  }
+
+  // Abort one model, or every model of the request when modelId is omitted.
+  // Returns the model ids that were actually aborted.
+  abort(requestId: string, modelId?: string, reason: string = 'stopped'): string[] {
+    const models = this.requests.get(requestId);
+    if (!models) return [];
+
+    const aborted: string[] = [];
+    for (const [id, controller] of models) {
+      if (modelId && id !== modelId) continue;
+      if (!controller.signal.aborted) {
+        controller.abort(reason);
+        aborted.push(id);
+      }
+    }
+    return aborted;
+  }
+
+  release(requestId: string, modelId: string): void {
+    const models = this.requests.get(requestId);
+    if (!models) return;
+
+    models.delete(modelId);
+    if (models.size === 0) {
+      this.requests.delete(requestId);
+    }
+  }
+
+  has(requestId: string, modelId?: string): boolean {
+    const models = this.requests.get(requestId);
+    return Boolean(models && (!modelId || models.has(modelId)));
+  }
+}
+
+// Route handlers are bundled separately, so the singleton lives on globalThis
+const globalForRegistry = globalThis as unknown as { chatRequestRegistry?: RequestRegistry };
+
+export const requestRegistry = globalForRegistry.chatRequestRegistry ??= new RequestRegistry();
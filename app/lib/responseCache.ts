@@ -0,0 +1,140 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ModelEventType } from './chatEvents';
+
+// Opt-in disk cache of finished model responses for the chat proxy. An entry
+// is the model's chat events with their original timing, so a hit replays
+// exactly like the live stream did. Entries expire after a TTL and the oldest
+// are evicted once the directory outgrows its size limit.
+
+export interface CachedEvent {
+  type: ModelEventType; // chunk, reasoning, usage, end, ...
+  payload: Record<string, unknown>; // Event payload without the model id
+  delay: number; // ms since the previous event
+}
+
+export interface CacheEntry {
+  version: 2;
+  model: string;
+  createdAt: number;
+  events: CachedEvent[];
+}
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_MAX_MB = 50;
+
+// JSON with sorted keys, so equal requests hash the same whatever order their fields arrived in
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Key for one model's request: everything that shapes its answer. Messages
+ * should be the ones actually sent, after system prompts and context planning.
+ */
+export function responseCacheKey(request: { model: string; messages: unknown; parameters: unknown; [key: string]: unknown }): string {
+  return createHash('sha256').update(stableStringify(request)).digest('hex');
+}
+
+export class ResponseCache {
+  private pruning: Promise<void> | null = null;
+
+  get enabled(): boolean {
+    return process.env.CHAT_PROXY_CACHE === 'true';
+  }
+
+  private get dir(): string {
+    return process.env.CHAT_PROXY_CACHE_DIR || path.join(process.cwd(), '.cache', 'chat-proxy');
+  }
+
+  private get ttlMs(): number {
+    const seconds = Number(process.env.CHAT_PROXY_CACHE_TTL_SECONDS);
+    return (Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_TTL_SECONDS) * 1000;
+  }
+
+  private get maxBytes(): number {
+    const megabytes = Number(process.env.CHAT_PROXY_CACHE_MAX_MB);
+    return (Number.isFinite(megabytes) && megabytes > 0 ? megabytes : DEFAULT_MAX_MB) * 1024 * 1024;
+  }
+
+  private file(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  // The entry for `key`, or null when missing, expired or unreadable
+  async get(key: string): Promise<CacheEntry | null> {
+    try {
+      const entry = JSON.parse(await fs.readFile(this.file(key), 'utf8')) as CacheEntry;
+      if (entry.version !== 2 || !Array.isArray(entry.events)) return null;
+      if (Date.now() - entry.createdAt > this.ttlMs) {
+        await fs.rm(this.file(key), { force: true });
+        return null;
+      }
+      return entry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Ignoring unreadable cache entry ${key}:`, error);
+      }
+      return null;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    // Write then rename, so a concurrent read never sees half a file; each
+    // write has its own temporary file, as the same key can be stored twice at once
+    const temporary = `${this.file(key)}.${randomUUID()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(entry));
+    await fs.rename(temporary, this.file(key));
+    this.prune();
+  }
+
+  // Drop expired entries, then the oldest until the total fits the size limit
+  private prune(): void {
+    this.pruning ??= (async () => {
+      try {
+        const names = (await fs.readdir(this.dir)).filter(name => name.endsWith('.json'));
+        const files = await Promise.all(names.map(async name => {
+          const file = path.join(this.dir, name);
+          const stats = await fs.stat(file).catch(() => null);
+          return stats ? { file, size: stats.size, modified: stats.mtimeMs } : null;
+        }));
+
+        const now = Date.now();
+        let total = 0;
+        const kept: { file: string; size: number; modified: number }[] = [];
+        for (const entry of files) {
+          if (!entry) continue;
+          if (now - entry.modified > this.ttlMs) {
+            await fs.rm(entry.file, { force: true });
+          } else {
+            kept.push(entry);
+            total += entry.size;
+          }
+        }
+
+        for (const entry of kept.sort((a, b) => a.modified - b.modified)) {
+          if (total <= this.maxBytes) break;
+          await fs.rm(entry.file, { force: true });
+          total -= entry.size;
+        }
+      } catch (error) {
+        console.error('Failed to prune the response cache:', error);
+      } finally {
+        this.pruning = null;
+      }
+    })();
+  }
+}
+
+// Route handlers are bundled separately, so the singleton lives on globalThis
+const globalForCache = globalThis as unknown as { responseCache?: ResponseCache };
+export const responseCache = globalForCache.responseCache ??= new ResponseCache();
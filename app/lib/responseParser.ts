@@ -18,13 +18,6 @@ export function parseOpenAIGPTOSSResponse(response: string): ParsedResponse {
     };
   }
 
-  // Debug logging to understand the response structure
-  console.log('OpenAI GPT-OSS 20B Response Analysis:');
-  console.log('Length:', response.length);
-  console.log('First 200 chars:', response.substring(0, 200));
-  console.log('Last 200 chars:', response.substring(Math.max(0, response.length - 200)));
-  console.log('Paragraphs count:', response.split(/\n\s*\n/).length);
-
   // Pattern specific to this model's verbose analysis style
   // Look for the pattern where it analyzes multiple options and then gives a final answer
   const analysisPattern = /^(.*?)(?:Let's produce|Let me give|I'll give|Here's|My response|Final answer|The answer|So)\s*[:\-]?\s*(.*)$/is;
@@ -39,7 +32,6 @@ export function parseOpenAIGPTOSSResponse(response: string): ParsedResponse {
     const hasAnalysisKeywords = /(?:probably|maybe|but|however|let's think|analysis|consider|should be|requirement|means)/i.test(cleanThinking);
     
     if (hasAnalysisKeywords && cleanThinking.length > 50 && cleanFinalAnswer.length > 5) {
-      console.log('Pattern matched - Analysis style detected');
       return {
         thinking: cleanThinking,
         finalAnswer: cleanFinalAnswer,
@@ -64,7 +56,6 @@ export function parseOpenAIGPTOSSResponse(response: string): ParsedResponse {
     const hasAnalysisIndicators = /(?:probably|maybe|but|however|should be|requirement|means|let's think|analysis|consider|options?|choices?)/i.test(cleanAnalysis);
     
     if (hasAnalysisIndicators && cleanAnalysis.length > 100 && cleanFinalAnswer.length > 3 && cleanFinalAnswer.length < cleanAnalysis.length * 0.3) {
-      console.log('Option analysis pattern detected');
       return {
         thinking: cleanAnalysis,
         finalAnswer: cleanFinalAnswer,
@@ -212,7 +203,6 @@ export function parseOpenAIGPTOSSResponse(response: string): ParsedResponse {
       
       // Ensure the analysis part is much longer than the final answer
       if (restOfResponse.length > lastSentence.length * 3) {
-        console.log('Short final answer pattern detected');
         return {
           thinking: restOfResponse,
           finalAnswer: lastSentence,
@@ -227,7 +217,6 @@ export function parseOpenAIGPTOSSResponse(response: string): ParsedResponse {
       const restOfResponse = sentences.slice(0, -2).join('. ').trim() + '.';
       
       if (restOfResponse.length > lastTwoSentences.length * 2) {
-        console.log('Short two-sentence conclusion detected');
         return {
           thinking: restOfResponse,
           finalAnswer: lastTwoSentences,
@@ -271,9 +260,18 @@ export function parseOpenAIGPTOSSResponse(response: string): ParsedResponse {
 
 /**
  * Main function to parse any model response
- * Can be extended to handle other models with specific patterns
+ * Reasoning the provider streamed on its own channel is used as-is; the
+ * text heuristics below are only a fallback for models that inline it
  */
-export function parseModelResponse(modelId: string, response: string): ParsedResponse {
+export function parseModelResponse(modelId: string, response: string, reasoning?: string): ParsedResponse {
+  if (reasoning?.trim()) {
+    return {
+      thinking: reasoning.trim(),
+      finalAnswer: response,
+      hasThinking: true
+    };
+  }
+
   // Handle OpenAI GPT-OSS 20B specifically
   if (modelId === 'openai/gpt-oss-20b:free' || modelId.includes('gpt-oss-20b')) {
     return parseOpenAIGPTOSSResponse(response);
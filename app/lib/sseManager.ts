@@ -1,4 +1,12 @@
 import { ModelId } from './atoms';
+import { GenerationParameters } from './generationParameters';
+import type { JsonSchema } from './jsonSchema';
+import type { ContextMessage } from './messageContent';
+import type { ContextStrategy } from './contextPlanner';
+import type { ToolDefinition } from './tools/definitions';
+import { CHAT_PROTOCOL_HEADER, CHAT_PROTOCOL_VERSION, parseChatEvent, type ChatEvent } from './chatEvents';
+import { SSEParser, type SSEMessage } from './sseParser';
+import { apiKeyHeaders, type ApiKeys } from './apiKeys';
 
 export interface SSEConnectionOptions {
   maxRetries?: number;
@@ -6,23 +14,48 @@ export interface SSEConnectionOptions {
   timeout?: number;
   heartbeatInterval?: number;
   reconnectOnDrop?: boolean;
-  bufferSize?: number;
   performanceMonitoring?: boolean;
 }
 
-export interface SSEEventData {
-  modelId: ModelId;
-  type: 'chunk' | 'progress' | 'error' | 'end' | 'heartbeat';
-  data: string | { progress?: string; error?: string; [key: string]: unknown };
+// A chat proxy event with the model id lifted out of its payload; '' for heartbeats
+export type SSEEventData = ChatEvent & { modelId: ModelId };
+
+// Extra per-request fields sent to /api/chat-proxy alongside messages and models
+export interface ChatRequestOptions {
+  parameters?: Record<string, GenerationParameters>; // Keyed by model id
+  systemPrompts?: Record<string, string>; // Per-model system prompts replacing the shared one
+  tools?: ToolDefinition[]; // Built-in tools every model may call
+  responseSchema?: JsonSchema; // Structured output mode
+  contextStrategy?: ContextStrategy; // How older turns are fitted into small context windows
+  bypassCache?: boolean; // Skip the server's response cache
+  maxContinuations?: number; // Continuation rounds for answers cut off by max_tokens
+  servingModels?: Record<string, string>; // Model to call for a column instead of its own; events keep the column's id
+  apiKeys?: ApiKeys; // The user's own keys; sent as headers, never in the body
 }
 
 export type SSEEventHandler = (event: SSEEventData) => void;
 
+// The server has no buffered stream to resume, so the request must be re-sent
+class ResumeUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResumeUnavailableError';
+  }
+}
+
+// The server speaks another protocol version; retrying won't help, reloading the page will
+class ProtocolMismatchError extends Error {
+  constructor(serverVersion: string) {
+    super(`The chat server uses event protocol v${serverVersion} but this page expects v${CHAT_PROTOCOL_VERSION}. Reload the page to update.`);
+    this.name = 'ProtocolMismatchError';
+  }
+}
+
 export class SSEConnectionManager {
   private controller: AbortController | null = null;
   private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
   private decoder = new TextDecoder();
-  private buffer = '';
+  private parser = this.createParser();
   private lastActivity = 0;
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private timeoutTimer: NodeJS.Timeout | null = null;
@@ -34,6 +67,10 @@ export class SSEConnectionManager {
   private chunksProcessed = 0;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
+  private requestId: string | null = null; // Chosen for each request so it can be stopped or resumed before any event arrives
+  private expectedModelCount = 0; // Models of the current request
+  private lastEventId = 0; // Sequence id of the last model event handled, for resuming
+  private reconnectDelay = 1000; // Base delay between reconnection attempts; the server may suggest one
   
   constructor(
     private options: SSEConnectionOptions = {},
@@ -46,7 +83,6 @@ export class SSEConnectionManager {
       timeout: 60000,
       heartbeatInterval: 10000,
       reconnectOnDrop: true,
-      bufferSize: 8192,
       performanceMonitoring: true,
       ...options
     };
@@ -58,25 +94,29 @@ export class SSEConnectionManager {
     return this.connectWithMessages(messages, models);
   }
 
-  async connectWithMessages(messages: { role: string; content: string }[], models: ModelId[]): Promise<void> {
+  async connectWithMessages(messages: ContextMessage[], models: ModelId[], options: ChatRequestOptions = {}): Promise<void> {
     this.cleanup();
     this.onConnectionChange('connecting');
+    this.expectedModelCount = models.length;
     this.connectionStartTime = Date.now();
     this.totalBytesReceived = 0;
     this.chunksProcessed = 0;
+    this.requestId = crypto.randomUUID();
     
     try {
       this.controller = new AbortController();
       this.setupTimeout();
-      
+
+      const { apiKeys, ...requestOptions } = options;
       const response = await fetch('/api/chat-proxy', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Cache-Control': 'no-cache',
           'Accept': 'text/event-stream',
+          ...apiKeyHeaders(apiKeys),
         },
-        body: JSON.stringify({ messages, models }),
+        body: JSON.stringify({ messages, models, ...requestOptions, requestId: this.requestId }),
         signal: this.controller.signal
       });
 
@@ -88,6 +128,7 @@ export class SSEConnectionManager {
         throw new Error('No response body received');
       }
 
+      this.checkProtocol(response);
       this.reader = response.body.getReader();
       this.isConnected = true;
       this.lastActivity = Date.now();
@@ -101,7 +142,7 @@ export class SSEConnectionManager {
       this.onConnectionChange('error');
       
       if (this.shouldRetry(error)) {
-        await this.retryWithMessages(messages, models);
+        await this.retryWithMessages(messages, models, options);
       } else {
         throw error;
       }
@@ -151,36 +192,26 @@ export class SSEConnectionManager {
     }
   }
 
+  private createParser(): SSEParser {
+    return new SSEParser(message => this.handleSSEMessage(message), {
+      onRetry: delay => {
+        this.reconnectDelay = delay;
+      }
+    });
+  }
+
+  private checkProtocol(response: Response): void {
+    const serverVersion = response.headers.get(CHAT_PROTOCOL_HEADER) ?? '1';
+    if (serverVersion !== String(CHAT_PROTOCOL_VERSION)) {
+      throw new ProtocolMismatchError(serverVersion);
+    }
+  }
+
   private processChunk(chunk: Uint8Array): void {
     this.totalBytesReceived += chunk.length;
     this.chunksProcessed++;
     
-    const text = this.decoder.decode(chunk, { stream: true });
-    this.buffer += text;
-    
-    // Prevent buffer from growing too large
-    if (this.buffer.length > (this.options.bufferSize || 8192) * 2) {
-      console.warn('SSE buffer growing large, truncating older data');
-      const lines = this.buffer.split('\n');
-      this.buffer = lines.slice(-50).join('\n'); // Keep last 50 lines
-    }
-    
-    const lines = this.buffer.split('\n');
-    this.buffer = lines.pop() || '';
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      if (line.startsWith('event: ')) {
-        const event = line.slice(7);
-        
-        if (i + 1 < lines.length && lines[i + 1].startsWith('data: ')) {
-          const data = lines[i + 1].slice(6);
-          this.handleSSEEvent(event, data);
-          i++; // Skip the data line
-        }
-      }
-    }
+    this.parser.feed(this.decoder.decode(chunk, { stream: true }));
     
     // Performance monitoring
     if (this.options.performanceMonitoring && this.chunksProcessed % 100 === 0) {
@@ -190,45 +221,42 @@ export class SSEConnectionManager {
     }
   }
 
-  private handleSSEEvent(event: string, data: string): void {
+  private handleSSEMessage(message: SSEMessage): void {
     try {
-      // Handle heartbeat events
-      if (event === 'heartbeat') {
-        this.onEvent({
-          modelId: '' as ModelId,
-          type: 'heartbeat',
-          data: { timestamp: Date.now() }
-        });
+      const event = parseChatEvent(message.event, message.data);
+      if (!event) {
+        console.warn('Ignoring unrecognized SSE event:', message.event, message.data.substring(0, 100));
         return;
       }
 
-      // Parse model-specific events
-      const eventParts = event.split('_');
-      if (eventParts.length < 2) return;
-      
-      const modelId = eventParts.slice(0, -1).join('_') as ModelId;
-      const eventType = eventParts[eventParts.length - 1] as 'chunk' | 'progress' | 'error' | 'end';
-      
-      let parsedData;
-      try {
-        parsedData = JSON.parse(data);
-      } catch {
-        parsedData = { message: data };
+      // Heartbeats are per connection: they inherit the stream's last id but never move it
+      if (event.type === 'heartbeat') {
+        if (typeof event.data.requestId === 'string') {
+          this.requestId = event.data.requestId;
+        }
+        this.onEvent({ ...event, modelId: '' as ModelId });
+        return;
       }
 
-      this.onEvent({
-        modelId,
-        type: eventType,
-        data: parsedData
-      });
+      // Only committed once its event is handled, so a drop mid-event replays it
+      const eventId = message.id !== undefined ? Number.parseInt(message.id, 10) : NaN;
+
+      // Skip anything a resumed stream replays twice
+      if (Number.isFinite(eventId) && eventId <= this.lastEventId) return;
+
+      const { modelId } = event.data;
+      this.onEvent({ ...event, modelId });
+      if (Number.isFinite(eventId)) {
+        this.lastEventId = eventId;
+      }
 
       // Track completed models
-      if (eventType === 'end' || eventType === 'error') {
+      if (event.type === 'end' || event.type === 'error') {
         this.completedModels.add(modelId);
       }
 
     } catch (error) {
-      console.error('Error handling SSE event:', error, { event, data });
+      console.error('Error handling SSE event:', error, message);
     }
   }
 
@@ -240,6 +268,7 @@ export class SSEConnectionManager {
           modelId,
           type: 'error',
           data: { 
+            modelId,
             message: 'Stream ended unexpectedly',
             retryable: true 
           }
@@ -274,6 +303,7 @@ export class SSEConnectionManager {
 
   private shouldRetry(error: unknown): boolean {
     if (this.retryCount >= this.options.maxRetries!) return false;
+    if (error instanceof ProtocolMismatchError) return false;
     
     if (error instanceof Error) {
       // Don't retry on authentication or permission errors
@@ -300,14 +330,14 @@ export class SSEConnectionManager {
     return this.connect(prompt, models);
   }
 
-  private async retryWithMessages(messages: { role: string; content: string }[], models: ModelId[]): Promise<void> {
+  private async retryWithMessages(messages: ContextMessage[], models: ModelId[], options: ChatRequestOptions): Promise<void> {
     this.retryCount++;
     const delay = this.options.retryDelay! * Math.pow(2, this.retryCount - 1);
     
     console.log(`Retrying SSE connection with messages in ${delay}ms (attempt ${this.retryCount}/${this.options.maxRetries})`);
     
     await new Promise(resolve => setTimeout(resolve, delay));
-    return this.connectWithMessages(messages, models);
+    return this.connectWithMessages(messages, models, options);
   }
 
   disconnect(): void {
@@ -324,7 +354,7 @@ export class SSEConnectionManager {
     }
 
     this.reconnectAttempts++;
-    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts - 1), 10000); // Max 10s delay
+    const delay = Math.min(this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1), 10000); // Max 10s delay
     
     console.log(`Attempting reconnection ${this.reconnectAttempts}/${this.maxReconnectAttempts} in ${delay}ms`);
     
@@ -333,6 +363,7 @@ export class SSEConnectionManager {
       modelId: '' as ModelId,
       type: 'progress',
       data: { 
+        modelId: '' as ModelId,
         message: `Connection lost, reconnecting... (${this.reconnectAttempts}/${this.maxReconnectAttempts})`,
         reconnecting: true 
       }
@@ -342,28 +373,76 @@ export class SSEConnectionManager {
     
     // Only reconnect for incomplete models
     const incompleteModels = expectedModels.filter(model => !this.completedModels.has(model));
-    if (incompleteModels.length > 0) {
-      try {
-        // Store the original prompt - we'll need to get this from context
-        // For now, we'll emit an error for incomplete models
+    if (incompleteModels.length === 0) return;
+
+    try {
+      await this.resume(expectedModels);
+    } catch (error) {
+      console.error('Reconnection failed:', error);
+
+      // The server no longer has the stream (expired or restarted)
+      if (error instanceof ResumeUnavailableError) {
         incompleteModels.forEach(modelId => {
           this.onEvent({
             modelId,
             type: 'error',
             data: { 
+              modelId,
               message: 'Connection lost and could not be restored. Please try again.',
               retryable: true,
               reconnectionFailed: true
             }
           });
         });
-      } catch (error) {
-        console.error('Reconnection failed:', error);
-        this.handleStreamEnd(expectedModels);
+        return;
       }
+
+      await this.handleUnexpectedDisconnection(expectedModels);
     }
   }
 
+  // Reattach to the server-side request from the last handled event id; the
+  // server replays what was missed and the models carry on where they were
+  private async resume(expectedModels: ModelId[]): Promise<void> {
+    if (!this.requestId) {
+      throw new ResumeUnavailableError('No request id to resume');
+    }
+
+    if (this.reader) {
+      this.reader.releaseLock();
+      this.reader = null;
+    }
+    this.controller?.abort();
+    this.controller = new AbortController();
+    this.parser = this.createParser();
+
+    const response = await fetch(`/api/chat-proxy?requestId=${encodeURIComponent(this.requestId)}`, {
+      method: 'GET',
+      headers: {
+        'Cache-Control': 'no-cache',
+        'Accept': 'text/event-stream',
+        'Last-Event-ID': String(this.lastEventId),
+      },
+      signal: this.controller.signal
+    });
+
+    if (response.status === 404 || response.status === 410) {
+      throw new ResumeUnavailableError(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    console.log(`Resumed request ${this.requestId} after event ${this.lastEventId}`);
+    this.reader = response.body.getReader();
+    this.isConnected = true;
+    this.lastActivity = Date.now();
+    this.onConnectionChange('connected');
+
+    await this.processStream(expectedModels);
+  }
+
   private shouldReconnect(error: unknown): boolean {
     if (this.reconnectAttempts >= this.maxReconnectAttempts) return false;
     
@@ -398,12 +477,48 @@ export class SSEConnectionManager {
       this.timeoutTimer = null;
     }
     
-    this.buffer = '';
+    this.parser = this.createParser();
+    this.requestId = null;
+    this.lastEventId = 0;
     this.completedModels.clear();
     this.retryCount = 0;
     this.reconnectAttempts = 0;
   }
 
+  // Ask the server to cancel one model; its stream ends with a `stopped` end event
+  async stopModel(modelId: ModelId): Promise<void> {
+    if (!this.requestId || this.completedModels.has(modelId)) return;
+
+    const response = await fetch('/api/chat-proxy/stop', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ requestId: this.requestId, modelId })
+    });
+
+    // 404 means the model finished before the stop arrived
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Abandon the request: close the stream and have the server cut off every
+   * model still generating. A plain disconnect leaves them running for a
+   * resume; this is for a new chat, a replaced prompt or a closed tab, so the
+   * stop is sent with keepalive to outlive the page.
+   */
+  cancel(): void {
+    if (this.requestId && this.completedModels.size < this.expectedModelCount) {
+      fetch('/api/chat-proxy/stop', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestId: this.requestId }),
+        keepalive: true
+      }).catch(error => console.warn('Failed to cancel request:', error));
+    }
+    this.disconnect();
+  }
+
   isActive(): boolean {
     return this.isConnected;
   }
@@ -434,10 +549,10 @@ export class SSEConnectionManager {
     await this.connect(prompt, models);
   }
 
-  async forceReconnectWithMessages(messages: { role: string; content: string }[], models: ModelId[]): Promise<void> {
+  async forceReconnectWithMessages(messages: ContextMessage[], models: ModelId[], options: ChatRequestOptions = {}): Promise<void> {
     console.log('Force reconnecting SSE connection with messages');
     this.reconnectAttempts = 0; // Reset reconnect attempts
     this.cleanup();
-    await this.connectWithMessages(messages, models);
+    await this.connectWithMessages(messages, models, options);
   }
 }
\ No newline at end of file
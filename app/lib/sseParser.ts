@@ -0,0 +1,123 @@
+// Server-sent events framing, following the WHATWG event stream rules. The
+// parser is incremental and shared by the client (our chat proxy stream) and
+// the providers (upstream OpenAI-compatible streams); the formatter writes the
+// chat proxy's side.
+
+export interface SSEMessage {
+  event: string; // 'message' when the event set no type
+  data: string; // Data lines joined with '\n'
+  id?: string; // Last event id seen on the stream, which carries over to later events
+}
+
+// One line longer than this is a broken stream, not a slow one
+const DEFAULT_MAX_LINE_LENGTH = 4 * 1024 * 1024;
+
+export class SSEParser {
+  private buffer = '';
+  private dataLines: string[] = [];
+  private eventType = '';
+  private lastEventId: string | undefined;
+  private startOfStream = true;
+
+  constructor(
+    private onMessage: (message: SSEMessage) => void,
+    private options: { onRetry?: (ms: number) => void; maxLineLength?: number } = {}
+  ) {}
+
+  // Feed decoded text; complete events are dispatched as their blank line arrives
+  feed(text: string): void {
+    if (this.startOfStream && text) {
+      this.startOfStream = false;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+    this.buffer += text;
+
+    let start = 0;
+    for (;;) {
+      const lineEnd = this.findLineEnd(start);
+      if (lineEnd === -1) break;
+      this.processLine(this.buffer.slice(start, lineEnd));
+      start = lineEnd + (this.buffer[lineEnd] === '\r' && this.buffer[lineEnd + 1] === '\n' ? 2 : 1);
+    }
+    this.buffer = this.buffer.slice(start);
+
+    const maxLineLength = this.options.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH;
+    if (this.buffer.length > maxLineLength) {
+      throw new Error(`Event stream line exceeds ${maxLineLength} characters`);
+    }
+  }
+
+  /**
+   * Finish the stream. A trailing event without its blank line is still
+   * dispatched: upstream servers often omit the last one.
+   */
+  end(): void {
+    if (this.buffer) {
+      this.processLine(this.buffer.endsWith('\r') ? this.buffer.slice(0, -1) : this.buffer);
+      this.buffer = '';
+    }
+    this.dispatch();
+  }
+
+  // Index of the next CR, LF or CRLF at or after `start`; a CR at the very end
+  // waits for the next chunk in case an LF follows
+  private findLineEnd(start: number): number {
+    for (let index = start; index < this.buffer.length; index++) {
+      const char = this.buffer[index];
+      if (char === '\n') return index;
+      if (char === '\r') return index + 1 < this.buffer.length ? index : -1;
+    }
+    return -1;
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+    if (line.startsWith(':')) return; // Comment, often used as a keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\u0000')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.options.onRetry?.(Number(value));
+        break;
+      // Unknown fields are ignored
+    }
+  }
+
+  private dispatch(): void {
+    // An event with no data lines is dropped, per the spec
+    const message: SSEMessage | null = this.dataLines.length > 0
+      ? { event: this.eventType || 'message', data: this.dataLines.join('\n'), id: this.lastEventId }
+      : null;
+    this.dataLines = [];
+    this.eventType = '';
+    if (message) this.onMessage(message);
+  }
+}
+
+// One event in wire format; multi-line data is split over several `data:` lines
+export function formatSSE(message: { event?: string; data: string; id?: string | number; retry?: number }): string {
+  let text = '';
+  if (message.retry !== undefined) text += `retry: ${message.retry}\n`;
+  if (message.id !== undefined) text += `id: ${message.id}\n`;
+  if (message.event) text += `event: ${message.event}\n`;
+  for (const line of message.data.split(/\r\n|\r|\n/)) {
+    text += `data: ${line}\n`;
+  }
+  return `${text}\n`;
+}
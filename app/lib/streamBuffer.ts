@@ -0,0 +1,107 @@
+// Short-lived, per-request log of the SSE events the chat proxy has produced.
+// Models write into the buffer rather than straight into a response, so a client
+// that drops its connection can reconnect with Last-Event-ID and pick up where
+// it left off instead of re-running every model.
+
+export interface BufferedEvent {
+  id: number; // Sequence number, sent as the SSE `id` field
+  event: string;
+  data: string;
+}
+
+interface Subscriber {
+  onEvent: (event: BufferedEvent) => void;
+  onComplete: () => void;
+}
+
+const MAX_BUFFERED_EVENTS = 20000; // Oldest events are dropped past this
+const COMPLETED_TTL_MS = 60000; // How long a finished request stays resumable
+
+export class StreamBuffer {
+  private events: BufferedEvent[] = [];
+  private subscribers = new Set<Subscriber>();
+  private nextId = 1;
+  private completed = false;
+
+  push(event: string, data: string): BufferedEvent {
+    const entry: BufferedEvent = { id: this.nextId++, event, data };
+    this.events.push(entry);
+    if (this.events.length > MAX_BUFFERED_EVENTS) {
+      this.events.shift();
+    }
+
+    for (const subscriber of this.subscribers) {
+      subscriber.onEvent(entry);
+    }
+    return entry;
+  }
+
+  // Events after `lastEventId`, in order
+  since(lastEventId: number): BufferedEvent[] {
+    return this.events.filter(entry => entry.id > lastEventId);
+  }
+
+  // False when events after `lastEventId` have already been evicted
+  canResumeFrom(lastEventId: number): boolean {
+    const oldest = this.events[0];
+    return !oldest || oldest.id <= lastEventId + 1;
+  }
+
+  subscribe(onEvent: Subscriber['onEvent'], onComplete: Subscriber['onComplete']): () => void {
+    const subscriber = { onEvent, onComplete };
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  complete(): void {
+    if (this.completed) return;
+    this.completed = true;
+
+    for (const subscriber of this.subscribers) {
+      subscriber.onComplete();
+    }
+    this.subscribers.clear();
+  }
+
+  isCompleted(): boolean {
+    return this.completed;
+  }
+
+  get subscriberCount(): number {
+    return this.subscribers.size;
+  }
+}
+
+export class StreamBufferStore {
+  private buffers = new Map<string, StreamBuffer>();
+
+  create(requestId: string): StreamBuffer {
+    const buffer = new StreamBuffer();
+    this.buffers.set(requestId, buffer);
+    return buffer;
+  }
+
+  get(requestId: string): StreamBuffer | undefined {
+    return this.buffers.get(requestId);
+  }
+
+  // Mark the request finished and forget it once the resume window has passed
+  complete(requestId: string): void {
+    const buffer = this.buffers.get(requestId);
+    if (!buffer) return;
+
+    buffer.complete();
+    setTimeout(() => {
+      if (this.buffers.get(requestId) === buffer) {
+        this.buffers.delete(requestId);
+      }
+    }, COMPLETED_TTL_MS);
+  }
+}
+
+// Route handlers are bundled separately, so the singleton lives on globalThis
+const globalForBuffers = globalThis as unknown as { chatStreamBuffers?: StreamBufferStore };
+
+export const streamBuffers = globalForBuffers.chatStreamBuffers ??= new StreamBufferStore();
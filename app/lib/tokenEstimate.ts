@@ -0,0 +1,55 @@
+import { contentText, countImages, type MessageContent } from './messageContent';
+
+// Token counts for budgeting before anything is sent: context checks, cost
+// estimates, the prompt budget and the evaluator's verbosity metrics all count
+// with this module. It approximates BPE tokenizers like cl100k and o200k by
+// splitting text the way their pre-tokenizers do and costing each piece;
+// expect it within roughly 10% for English prose and code. Providers report
+// the real numbers afterwards.
+
+// Pieces a BPE pre-tokenizer would never merge across: words with their
+// leading space, digit runs, CJK characters, punctuation runs and whitespace
+const PIECE_PATTERN = /'(?:s|t|re|ve|m|ll|d)\b| ?[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]| ?[\p{L}\p{M}]+| ?\p{N}+| ?[^\s\p{L}\p{M}\p{N}]+|\s+/giu;
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const LATIN_PATTERN = /^ ?[a-z]+$/i;
+
+// Chat formatting around every message (role and separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// A high-detail 1024x1024 image under OpenAI's tiling rules; other providers are in the same range
+const IMAGE_TOKENS = 765;
+
+function pieceTokens(piece: string): number {
+  if (CJK_PATTERN.test(piece)) return piece.trim().length; // Roughly one token per character
+  if (/^\s+$/.test(piece)) return piece.match(/\n/g)?.length ?? Math.ceil(piece.length / 4); // Newlines, or runs of spaces
+
+  const body = piece.startsWith(' ') ? piece.slice(1) : piece;
+  if (LATIN_PATTERN.test(piece)) return Math.max(1, Math.ceil(body.length / 6)); // Common words are one token, long ones split
+  if (/^\p{N}+$/u.test(body)) return Math.ceil(body.length / 3); // Digits are grouped in threes
+  if (/^[\p{L}\p{M}]+$/u.test(body)) return Math.max(1, Math.ceil(body.length / 3)); // Other scripts merge less
+  return Math.max(1, Math.ceil(body.length / 2)); // Punctuation and symbols
+}
+
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const match of text.matchAll(PIECE_PATTERN)) {
+    tokens += pieceTokens(match[0]);
+  }
+  return tokens;
+}
+
+export function estimateMessagesTokens(messages: { content: MessageContent }[]): number {
+  return messages.reduce(
+    (total, message) => total + MESSAGE_OVERHEAD_TOKENS + estimateTokens(contentText(message.content)) + countImages(message.content) * IMAGE_TOKENS,
+    0
+  );
+}
+
+// Words as people count them, for reporting next to token counts
+export function countWords(text: string): number {
+  return text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu)?.length ?? 0;
+}
+
+// "850", "12.3K"
+export function formatTokenCount(tokens: number): string {
+  return tokens < 1000 ? String(tokens) : `${(tokens / 1000).toFixed(1)}K`;
+}
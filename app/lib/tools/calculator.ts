@@ -0,0 +1,136 @@
+// Arithmetic for the calculator tool. A small recursive-descent parser, so model
+// input is never passed to eval.
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const FUNCTIONS: Record<string, (value: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  log: Math.log10,
+  ln: Math.log,
+  exp: Math.exp
+};
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'symbol'; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+)|([a-z]+)|(\*\*|[-+*/%^(),]))/giy;
+  let match: RegExpExecArray | null;
+
+  while (pattern.lastIndex < expression.length) {
+    const start = pattern.lastIndex;
+    match = pattern.exec(expression);
+    if (!match) {
+      if (!expression.slice(start).trim()) break;
+      throw new Error(`Unexpected character at position ${start + 1}: "${expression.slice(start).trim()[0]}"`);
+    }
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: Number(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2].toLowerCase() });
+    else if (match[3] !== undefined) tokens.push({ type: 'symbol', value: match[3] === '**' ? '^' : match[3] });
+  }
+  return tokens;
+}
+
+/**
+ * Evaluate an arithmetic expression. Throws with a readable message on syntax
+ * errors, unknown names and non-finite results.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isSymbol = (value: string) => peek()?.type === 'symbol' && peek()?.value === value;
+  const expect = (value: string) => {
+    if (!isSymbol(value)) throw new Error(`Expected "${value}"`);
+    position++;
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = tokens[position++].value;
+      const right = parseTerm();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  // term := unary (('*' | '/' | '%') unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (isSymbol('*') || isSymbol('/') || isSymbol('%')) {
+      const operator = tokens[position++].value;
+      const right = parseUnary();
+      if (operator === '*') value *= right;
+      else if (operator === '/') value /= right;
+      else value %= right;
+    }
+    return value;
+  };
+
+  // unary := ('-' | '+') unary | power   (so -2^2 is -(2^2))
+  const parseUnary = (): number => {
+    if (isSymbol('-')) {
+      position++;
+      return -parseUnary();
+    }
+    if (isSymbol('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary ('^' unary)?   (right associative)
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (isSymbol('^')) {
+      position++;
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  // primary := number | constant | function '(' expression ')' | '(' expression ')'
+  const parsePrimary = (): number => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of expression');
+
+    if (token.type === 'number') {
+      position++;
+      return token.value;
+    }
+    if (token.type === 'name') {
+      position++;
+      if (token.value in CONSTANTS) return CONSTANTS[token.value];
+      const fn = FUNCTIONS[token.value];
+      if (!fn) throw new Error(`Unknown name "${token.value}"`);
+      expect('(');
+      const argument = parseExpression();
+      expect(')');
+      return fn(argument);
+    }
+    if (isSymbol('(')) {
+      position++;
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  if (tokens.length === 0) throw new Error('Expression is empty');
+  const result = parseExpression();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position].value}"`);
+  if (!Number.isFinite(result)) throw new Error('Result is not a finite number');
+  return result;
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Plain-text search over the local corpus for the search_corpus tool. Files are
+// split into paragraphs and ranked by how often the query terms appear.
+
+const CORPUS_EXTENSIONS = ['.md', '.txt'];
+const EXCERPT_LENGTH = 500;
+
+export interface CorpusMatch {
+  file: string; // Relative to the corpus directory
+  excerpt: string;
+  score: number;
+}
+
+export function getCorpusDir(): string {
+  return process.env.TOOL_CORPUS_DIR || path.join(process.cwd(), 'config', 'corpus');
+}
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+async function listCorpusFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(entries.map(async entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listCorpusFiles(fullPath);
+    return CORPUS_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()) ? [fullPath] : [];
+  }));
+  return files.flat();
+}
+
+export async function searchCorpus(query: string, limit: number): Promise<CorpusMatch[]> {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) throw new Error('Query has no searchable words');
+
+  const dir = getCorpusDir();
+  let files: string[];
+  try {
+    files = await listCorpusFiles(dir);
+  } catch {
+    throw new Error('The local corpus is not available');
+  }
+
+  const matches: CorpusMatch[] = [];
+  for (const file of files) {
+    const text = await fs.readFile(file, 'utf8');
+    for (const paragraph of text.split(/\n\s*\n/)) {
+      const words = tokenize(paragraph);
+      if (words.length === 0) continue;
+
+      // Term frequency, with a bonus for matching more distinct terms
+      const matched = terms.filter(term => words.includes(term));
+      if (matched.length === 0) continue;
+      const hits = words.filter(word => terms.includes(word)).length;
+      const score = matched.length * 10 + hits / Math.sqrt(words.length);
+
+      const excerpt = paragraph.trim();
+      matches.push({
+        file: path.relative(dir, file),
+        excerpt: excerpt.length > EXCERPT_LENGTH ? `${excerpt.slice(0, EXCERPT_LENGTH)}...` : excerpt,
+        score: Math.round(score * 100) / 100
+      });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
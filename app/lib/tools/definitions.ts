@@ -0,0 +1,84 @@
+// OpenAI-style tool definitions for the built-in tools. Shared by the client,
+// which picks the tools to offer, and the chat proxy, which runs them.
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>; // JSON Schema for the arguments
+  };
+}
+
+// A complete call as the model made it; `arguments` is the raw JSON string
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+// Model turns allowed to end in tool calls before the chat proxy's loop gives up
+export const MAX_TOOL_STEPS = 5;
+
+export const BUILT_IN_TOOLS: ToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'calculator',
+      description: 'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, pi, e and sqrt, abs, round, floor, ceil, sin, cos, tan, log (base 10), ln and exp.',
+      parameters: {
+        type: 'object',
+        properties: {
+          expression: { type: 'string', description: 'The expression, e.g. "(3 + 4) * sqrt(2)"' }
+        },
+        required: ['expression']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'current_time',
+      description: 'Get the current date and time, optionally in a given IANA time zone.',
+      parameters: {
+        type: 'object',
+        properties: {
+          timezone: { type: 'string', description: 'IANA time zone such as "Europe/Paris". Defaults to UTC.' }
+        }
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'validate_json',
+      description: 'Check whether a string is valid JSON and report where parsing fails if it is not.',
+      parameters: {
+        type: 'object',
+        properties: {
+          text: { type: 'string', description: 'The JSON text to validate' }
+        },
+        required: ['text']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'search_corpus',
+      description: 'Search the local document corpus and return the best matching passages.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Words to search for' },
+          limit: { type: 'integer', description: 'Maximum number of passages to return (1-10, default 3)' }
+        },
+        required: ['query']
+      }
+    }
+  }
+];
+
+export function findToolDefinition(name: string): ToolDefinition | undefined {
+  return BUILT_IN_TOOLS.find(tool => tool.function.name === name);
+}
@@ -0,0 +1,97 @@
+import { evaluateExpression } from './calculator';
+import { searchCorpus } from './corpus';
+import { findToolDefinition, type ToolCall, type ToolDefinition } from './definitions';
+
+export * from './definitions';
+
+// Server-side handlers for the built-in tools. Handlers throw for bad input;
+// the error text goes back to the model as the tool result so it can retry.
+
+type ToolHandler = (args: Record<string, unknown>) => Promise<unknown> | unknown;
+
+export interface ToolResult {
+  content: string; // What the model receives in the `tool` message
+  error?: string;
+}
+
+const requireString = (args: Record<string, unknown>, name: string): string => {
+  const value = args[name];
+  if (typeof value !== 'string') throw new Error(`"${name}" must be a string`);
+  return value;
+};
+
+const TOOL_HANDLERS: Record<string, ToolHandler> = {
+  calculator: (args) => {
+    const expression = requireString(args, 'expression');
+    return { expression, result: evaluateExpression(expression) };
+  },
+
+  current_time: (args) => {
+    const timezone = typeof args.timezone === 'string' && args.timezone.trim() ? args.timezone.trim() : 'UTC';
+    const now = new Date();
+    let local: string;
+    try {
+      local = new Intl.DateTimeFormat('en-US', { timeZone: timezone, dateStyle: 'full', timeStyle: 'long' }).format(now);
+    } catch {
+      throw new Error(`Unknown time zone "${timezone}"`);
+    }
+    return { iso: now.toISOString(), timezone, local };
+  },
+
+  validate_json: (args) => {
+    const text = requireString(args, 'text');
+    try {
+      const parsed = JSON.parse(text);
+      return { valid: true, type: Array.isArray(parsed) ? 'array' : parsed === null ? 'null' : typeof parsed };
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : 'Invalid JSON' };
+    }
+  },
+
+  search_corpus: async (args) => {
+    const query = requireString(args, 'query');
+    const limit = typeof args.limit === 'number' ? Math.min(10, Math.max(1, Math.round(args.limit))) : 3;
+    const matches = await searchCorpus(query, limit);
+    return { query, matches };
+  }
+};
+
+export function isRegisteredTool(name: string): boolean {
+  return name in TOOL_HANDLERS && findToolDefinition(name) !== undefined;
+}
+
+/**
+ * Check tool definitions from a chat request. Returns the names of tools we
+ * cannot run; an empty list means every definition is usable.
+ */
+export function findUnknownTools(tools: unknown[]): string[] {
+  return tools
+    .map(tool => {
+      const definition = tool as Partial<ToolDefinition> | null;
+      const name = definition?.type === 'function' ? definition.function?.name : undefined;
+      return typeof name === 'string' && isRegisteredTool(name) ? null : String(name ?? '(unnamed)');
+    })
+    .filter((name): name is string => name !== null);
+}
+
+export async function runToolCall(call: ToolCall): Promise<ToolResult> {
+  const handler = TOOL_HANDLERS[call.function.name];
+  if (!handler) {
+    const error = `Unknown tool "${call.function.name}"`;
+    return { content: JSON.stringify({ error }), error };
+  }
+
+  try {
+    const args = call.function.arguments.trim() ? JSON.parse(call.function.arguments) : {};
+    if (!args || typeof args !== 'object' || Array.isArray(args)) {
+      throw new Error('Arguments must be a JSON object');
+    }
+    const result = await handler(args);
+    return { content: JSON.stringify(result) };
+  } catch (error) {
+    const message = error instanceof SyntaxError
+      ? `Arguments are not valid JSON: ${error.message}`
+      : error instanceof Error ? error.message : 'Tool failed';
+    return { content: JSON.stringify({ error: message }), error: message };
+  }
+}